@@ -1,26 +1,66 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, type DragEvent } from 'react';
+import { useTranslation } from 'react-i18next';
 import { useClipManager } from '../hooks/useClipManager';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useIntegrityCheck } from '../hooks/useIntegrityCheck';
+import { useClipNotes } from '../hooks/useClipNotes';
+import { useLibraryTimezone } from '../hooks/useLibraryTimezone';
+import { DEFAULT_CLIP_TAGS } from '../utils/clip-notes';
 import { Header } from './Header/Header';
 import { Sidebar } from './Sidebar/Sidebar';
 import { Player } from './Player/Player';
 import { WelcomeScreen } from './WelcomeScreen';
+import { IntegrityDialog } from './IntegrityDialog/IntegrityDialog';
+import { MapPanel } from './MapPanel/MapPanel';
 
 export function App() {
     const {
         clips,
         currentClip,
         isLoading,
+        isRefreshing,
         loadingProgress,
         error,
         warning,
         dismissWarning,
         selectFolder,
+        selectArchive,
         selectClip,
+        recoverClip,
         hasClips,
         fileInputRef,
         handleFileChange,
+        archiveInputRef,
+        handleArchiveChange,
+        handleDrop,
+        sources,
+        addFolder,
+        addArchive,
+        removeSource,
+        recentFolders,
+        openRecentFolder,
+        forgetRecentFolder,
+        rescan,
+        canRescan,
+        isWatching,
+        setWatching,
+        sessionGapSeconds,
+        setSessionGapSeconds,
     } = useClipManager();
+    const { t } = useTranslation();
+    const integrity = useIntegrityCheck();
+    const { getNote, updateNote, allTags } = useClipNotes(sources, clips);
+    const tagSuggestions = Array.from(new Set([...DEFAULT_CLIP_TAGS, ...allTags]));
+    const timezone = useLibraryTimezone(sources);
+    const [isIntegrityOpen, setIsIntegrityOpen] = useState(false);
+    const [isMapOpen, setIsMapOpen] = useState(false);
+
+    // A report describes the library it was run on; drop it once sources change
+    const { cancelCheck, clearReport } = integrity;
+    useEffect(() => {
+        cancelCheck();
+        clearReport();
+    }, [sources, cancelCheck, clearReport]);
 
     // Sidebar state
     // Default to open on desktop (> 768px), closed on mobile
@@ -35,13 +75,55 @@ export function App() {
         }
     }, [clips, hasClips]);
 
+    // Drag-and-drop state
+    // dragenter/dragleave fire for every child element, so count nesting depth
+    const [isDragging, setIsDragging] = useState(false);
+    const dragDepthRef = useRef(0);
+
+    const isFileDrag = (e: DragEvent) => e.dataTransfer.types.includes('Files');
+
+    const onDragEnter = (e: DragEvent) => {
+        if (!isFileDrag(e)) return;
+        e.preventDefault();
+        dragDepthRef.current++;
+        setIsDragging(true);
+    };
+
+    const onDragOver = (e: DragEvent) => {
+        if (!isFileDrag(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+    };
+
+    const onDragLeave = (e: DragEvent) => {
+        if (!isFileDrag(e)) return;
+        dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+        if (dragDepthRef.current === 0) {
+            setIsDragging(false);
+        }
+    };
+
+    const onDrop = (e: DragEvent) => {
+        if (!isFileDrag(e)) return;
+        e.preventDefault();
+        dragDepthRef.current = 0;
+        setIsDragging(false);
+        handleDrop(e.dataTransfer);
+    };
+
     // Keyboard shortcuts (basic navigation without player context)
     useKeyboardShortcuts({
         // Player-specific shortcuts are handled within the Player component
     });
 
     return (
-        <div id="app">
+        <div
+            id="app"
+            onDragEnter={onDragEnter}
+            onDragOver={onDragOver}
+            onDragLeave={onDragLeave}
+            onDrop={onDrop}
+        >
             <Header
                 onSelectFolder={selectFolder}
                 onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
@@ -56,19 +138,68 @@ export function App() {
                         setIsSidebarOpen(false); // Close sidebar on selection on mobile
                     }}
                     hasClips={hasClips}
+                    isRefreshing={isRefreshing}
+                    isWatching={isWatching}
+                    onRescan={canRescan ? rescan : undefined}
+                    onToggleWatch={canRescan ? () => setWatching(!isWatching) : undefined}
+                    onCheckIntegrity={() => setIsIntegrityOpen(true)}
+                    onShowMap={() => setIsMapOpen(true)}
+                    issueCounts={integrity.issueCounts}
+                    sources={sources}
+                    onAddFolder={addFolder}
+                    onAddArchive={addArchive}
+                    onRemoveSource={removeSource}
+                    getNote={getNote}
+                    tags={allTags}
+                    timezone={timezone.setting}
+                    onTimezoneChange={timezone.updateSetting}
+                    sessionGapSeconds={sessionGapSeconds}
+                    onSessionGapChange={setSessionGapSeconds}
+                    getTimeZone={timezone.getClipTimeZone}
                     isOpen={isSidebarOpen}
                     onClose={() => setIsSidebarOpen(false)}
                 />
 
                 <div className="content">
                     {currentClip ? (
-                        <Player clip={currentClip} />
+                        <Player
+                            clip={currentClip}
+                            note={getNote(currentClip)}
+                            onUpdateNote={(changes) => updateNote(currentClip, changes)}
+                            tagSuggestions={tagSuggestions}
+                            timeZone={timezone.getClipTimeZone(currentClip)}
+                        />
                     ) : (
-                        <WelcomeScreen onSelectFolder={selectFolder} />
+                        <WelcomeScreen
+                            onSelectFolder={selectFolder}
+                            onSelectArchive={selectArchive}
+                            recentFolders={recentFolders}
+                            onOpenRecentFolder={openRecentFolder}
+                            onForgetRecentFolder={forgetRecentFolder}
+                        />
                     )}
                 </div>
             </main>
 
+            <IntegrityDialog
+                isOpen={isIntegrityOpen}
+                onClose={() => setIsIntegrityOpen(false)}
+                onStartCheck={() => integrity.checkLibrary(clips)}
+                onCancelCheck={integrity.cancelCheck}
+                onSelectClip={selectClip}
+                onRecoverClip={recoverClip}
+                isChecking={integrity.isChecking}
+                progress={integrity.progress}
+                report={integrity.report}
+            />
+
+            <MapPanel
+                isOpen={isMapOpen}
+                onClose={() => setIsMapOpen(false)}
+                clips={clips}
+                onSelectClip={selectClip}
+            />
+
             {/* Error display */}
             {error && (
                 <div className="error-toast">
@@ -88,6 +219,13 @@ export function App() {
                 </div>
             )}
 
+            {/* Drop target overlay */}
+            {isDragging && (
+                <div className="drop-overlay">
+                    <div className="drop-overlay-message">{t('welcome.dropHint')}</div>
+                </div>
+            )}
+
             {/* Loading indicator with progress */}
             {isLoading && (
                 <div className="loading-overlay">
@@ -109,6 +247,15 @@ export function App() {
                 webkitdirectory=""
                 directory=""
             />
+
+            {/* Zip archive input */}
+            <input
+                type="file"
+                ref={archiveInputRef}
+                onChange={handleArchiveChange}
+                style={{ display: 'none' }}
+                accept=".zip,application/zip"
+            />
         </div>
     );
 }
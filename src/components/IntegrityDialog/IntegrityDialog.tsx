@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { ClipInfo } from '../../types';
+import type {
+    IntegrityIssue,
+    IntegrityIssueType,
+    IntegrityProgress,
+    LibraryIntegrityReport,
+} from '../../utils/integrity-checker';
+import { CAMERA_LABELS } from '../../utils/constants';
+import { formatClipDate } from '../../utils/time-utils';
+import styles from './IntegrityDialog.module.css';
+
+interface IntegrityDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onStartCheck: () => void;
+    onCancelCheck: () => void;
+    onSelectClip: (clip: ClipInfo) => void;
+    onRecoverClip: (clip: ClipInfo) => void;
+    isChecking: boolean;
+    progress: IntegrityProgress | null;
+    report: LibraryIntegrityReport | null;
+}
+
+const ISSUE_TYPES: IntegrityIssueType[] = [
+    'missingCamera',
+    'emptyFile',
+    'missingMoov',
+    'durationMismatch',
+    'unreadable',
+];
+
+const CATEGORY_KEYS: Record<ClipInfo['category'], string> = {
+    SavedClips: 'common.savedClips',
+    SentryClips: 'common.sentryClips',
+    RecentClips: 'common.recentClips',
+    TeslaTrackMode: 'common.trackModeClips',
+};
+
+export function IntegrityDialog({
+    isOpen,
+    onClose,
+    onStartCheck,
+    onCancelCheck,
+    onSelectClip,
+    onRecoverClip,
+    isChecking,
+    progress,
+    report,
+}: IntegrityDialogProps) {
+    const { t } = useTranslation();
+    const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+    if (!isOpen) return null;
+
+    const progressPercent = progress && progress.total > 0
+        ? (progress.processed / progress.total) * 100
+        : 0;
+
+    const describeIssue = (issue: IntegrityIssue) => t(`integrity.issues.${issue.type}`, {
+        segment: formatClipDate(issue.segment),
+        camera: issue.camera ? t(CAMERA_LABELS[issue.camera]) : '',
+        detail: issue.detail ?? '',
+    });
+
+    return (
+        <div className={styles.overlay}>
+            <div className={styles.content}>
+                <div className={styles.header}>
+                    <h2 className={styles.title}>{t('integrity.title')}</h2>
+                    <button onClick={onClose} className={styles.closeButton}>
+                        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <path d="M18 6L6 18" />
+                            <path d="M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className={styles.body}>
+                    {/* Progress */}
+                    {isChecking && (
+                        <div className={styles.progressContainer}>
+                            <div className={styles.progressHeader}>
+                                <span>{t('integrity.checking')}</span>
+                                <span>
+                                    {progress ? `${progress.processed} / ${progress.total}` : ''}
+                                </span>
+                            </div>
+                            <div className={styles.progressBarTrack}>
+                                <div
+                                    className={styles.progressBarFill}
+                                    style={{ width: `${progressPercent}%` }}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {!report && !isChecking && (
+                        <div className={styles.empty}>{t('integrity.description')}</div>
+                    )}
+
+                    {report && (
+                        <>
+                            {/* Library summary */}
+                            <div className={styles.summary}>
+                                <div className={styles.stat}>
+                                    <div className={styles.statValue}>{report.checkedClips}</div>
+                                    <div className={styles.statLabel}>{t('integrity.checkedClips')}</div>
+                                </div>
+                                <div className={styles.stat}>
+                                    <div className={styles.statValue}>{report.checkedSegments}</div>
+                                    <div className={styles.statLabel}>{t('integrity.checkedSegments')}</div>
+                                </div>
+                                {ISSUE_TYPES.filter(type => report.issueCounts[type] > 0).map(type => (
+                                    <div key={type} className={`${styles.stat} ${styles.statWarning}`}>
+                                        <div className={styles.statValue}>{report.issueCounts[type]}</div>
+                                        <div className={styles.statLabel}>{t(`integrity.types.${type}`)}</div>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {/* Per-clip results */}
+                            {report.clips.length === 0 ? (
+                                <div className={styles.empty}>{t('integrity.noIssues')}</div>
+                            ) : (
+                                report.clips.map(clipReport => (
+                                    <div key={clipReport.key} className={styles.clipReport}>
+                                        <button
+                                            className={styles.clipHeader}
+                                            onClick={() => setExpandedKey(
+                                                expandedKey === clipReport.key ? null : clipReport.key
+                                            )}
+                                        >
+                                            <span>
+                                                {formatClipDate(clipReport.clip.name)}
+                                                <span className={styles.clipCategory}>
+                                                    {t(CATEGORY_KEYS[clipReport.clip.category])}
+                                                </span>
+                                            </span>
+                                            <span className={styles.issueCount}>
+                                                {t('integrity.issueCount', { count: clipReport.issues.length })}
+                                            </span>
+                                        </button>
+                                        {expandedKey === clipReport.key && (
+                                            <>
+                                                <ul className={styles.issueList}>
+                                                    {clipReport.issues.map((issue, i) => (
+                                                        <li key={i}>{describeIssue(issue)}</li>
+                                                    ))}
+                                                </ul>
+                                                <div className={styles.footer}>
+                                                    <button
+                                                        className={styles.cancelButton}
+                                                        onClick={() => {
+                                                            onSelectClip(clipReport.clip);
+                                                            onClose();
+                                                        }}
+                                                    >
+                                                        {t('integrity.openClip')}
+                                                    </button>
+                                                    {/* Files without moov still hold a decodable stream */}
+                                                    {clipReport.issues.some(issue => issue.type === 'missingMoov') && (
+                                                        <button
+                                                            className={styles.primaryButton}
+                                                            onClick={() => {
+                                                                onRecoverClip(clipReport.clip);
+                                                                onClose();
+                                                            }}
+                                                        >
+                                                            {t('integrity.recoverClip')}
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </>
+                                        )}
+                                    </div>
+                                ))
+                            )}
+                        </>
+                    )}
+                </div>
+
+                <div className={styles.footer}>
+                    {isChecking ? (
+                        <button onClick={onCancelCheck} className={styles.cancelButton}>
+                            {t('common.cancel')}
+                        </button>
+                    ) : (
+                        <button onClick={onStartCheck} className={styles.primaryButton}>
+                            {report ? t('integrity.recheck') : t('integrity.start')}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,407 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type PointerEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { ClipInfo, ClipsByCategory } from '../../types';
+import { NativeFileSystemDirectoryEntry } from '../../utils/file-system-adapters';
+import { LocalTileSource } from '../../utils/local-tiles';
+import { REASON_LABELS } from '../../utils/constants';
+import { formatClipDate } from '../../utils/time-utils';
+import { getClipKey } from '../../utils/clip-diff';
+import {
+    MAX_ZOOM,
+    clampZoom,
+    clusterEvents,
+    collectMapEvents,
+    fitView,
+    getWorldScale,
+    lonLatToWorld,
+    screenToWorld,
+    worldToLonLat,
+    worldToScreen,
+    type MapCluster,
+    type MapView,
+    type WorldPoint,
+} from '../../utils/map-projection';
+import styles from './MapPanel.module.css';
+
+interface MapPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    clips: ClipsByCategory;
+    onSelectClip: (clip: ClipInfo) => void;
+}
+
+interface VisibleTile {
+    key: string;
+    z: number;
+    x: number;
+    y: number;
+    left: number;
+    top: number;
+    size: number;
+}
+
+// Graticule spacings in degrees, coarsest first
+const GRID_STEPS = [30, 10, 5, 1, 0.5, 0.1, 0.05, 0.01, 0.005, 0.001];
+// Minimum distance between graticule lines (px)
+const GRID_MIN_SPACING = 80;
+// Pointer travel below which a drag counts as a click (px)
+const CLICK_TOLERANCE = 4;
+
+export function MapPanel({ isOpen, onClose, clips, onSelectClip }: MapPanelProps) {
+    const { t } = useTranslation();
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [size, setSize] = useState({ width: 0, height: 0 });
+    const [center, setCenter] = useState<WorldPoint>({ x: 0.5, y: 0.5 });
+    const [zoom, setZoom] = useState(2);
+    const [openCluster, setOpenCluster] = useState<MapCluster | null>(null);
+    const [tileSource, setTileSource] = useState<LocalTileSource | null>(null);
+    const [tileUrls, setTileUrls] = useState<Record<string, string | null>>({});
+    const dragRef = useRef<{ x: number; y: number; center: WorldPoint; moved: boolean } | null>(null);
+    // Set when a drag ends, so the click that follows does not select a marker
+    const suppressClickRef = useRef(false);
+    const fittedRef = useRef(false);
+    // Tiles held from the current source, by key
+    const acquiredTilesRef = useRef(new Map<string, VisibleTile>());
+    // Latest view for native event handlers
+    const viewRef = useRef({ center, zoom });
+    viewRef.current = { center, zoom };
+
+    const events = useMemo(() => collectMapEvents(clips), [clips]);
+    const view: MapView = { center, zoom, width: size.width, height: size.height };
+
+    // Track the map size
+    useEffect(() => {
+        if (!isOpen || !containerRef.current) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(containerRef.current);
+        return () => observer.disconnect();
+    }, [isOpen]);
+
+    const fitAll = useCallback(() => {
+        if (size.width === 0) return;
+        const fitted = fitView(events.map(event => event.world), size.width, size.height);
+        setCenter(fitted.center);
+        setZoom(fitted.zoom);
+        setOpenCluster(null);
+    }, [events, size.width, size.height]);
+
+    // Fit all events once per opening, as soon as the map has a size
+    useEffect(() => {
+        if (!isOpen) {
+            fittedRef.current = false;
+        } else if (size.width > 0 && !fittedRef.current) {
+            fittedRef.current = true;
+            fitAll();
+        }
+    }, [isOpen, size.width, fitAll]);
+
+    // Release tile object URLs when the source changes or the panel unmounts
+    useEffect(() => {
+        setTileUrls({});
+        acquiredTilesRef.current = new Map();
+        return () => tileSource?.dispose();
+    }, [tileSource]);
+
+    // Zoom around the cursor; registered natively so the page does not scroll
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!isOpen || !container) return;
+
+        const onWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = container.getBoundingClientRect();
+            const x = e.clientX - rect.left;
+            const y = e.clientY - rect.top;
+            const { center: currentCenter, zoom: currentZoom } = viewRef.current;
+
+            // Keep the point under the cursor in place
+            const anchor = screenToWorld(x, y, {
+                center: currentCenter,
+                zoom: currentZoom,
+                width: rect.width,
+                height: rect.height,
+            });
+            const nextZoom = clampZoom(currentZoom - e.deltaY * 0.002);
+            const nextScale = getWorldScale(nextZoom);
+
+            setZoom(nextZoom);
+            setCenter({
+                x: anchor.x - (x - rect.width / 2) / nextScale,
+                y: anchor.y - (y - rect.height / 2) / nextScale,
+            });
+            setOpenCluster(null);
+        };
+
+        container.addEventListener('wheel', onWheel, { passive: false });
+        return () => container.removeEventListener('wheel', onWheel);
+    }, [isOpen]);
+
+    // Tiles covering the view at the nearest integer zoom
+    const visibleTiles = useMemo<VisibleTile[]>(() => {
+        if (!tileSource || size.width === 0) return [];
+
+        const z = Math.min(MAX_ZOOM, Math.max(0, Math.round(zoom)));
+        const count = Math.pow(2, z);
+        const topLeft = screenToWorld(0, 0, { center, zoom, ...size });
+        const bottomRight = screenToWorld(size.width, size.height, { center, zoom, ...size });
+        const tileSize = getWorldScale(zoom) / count;
+
+        const tiles: VisibleTile[] = [];
+        const minX = Math.max(0, Math.floor(topLeft.x * count));
+        const maxX = Math.min(count - 1, Math.floor(bottomRight.x * count));
+        const minY = Math.max(0, Math.floor(topLeft.y * count));
+        const maxY = Math.min(count - 1, Math.floor(bottomRight.y * count));
+        for (let x = minX; x <= maxX; x++) {
+            for (let y = minY; y <= maxY; y++) {
+                const origin = worldToScreen({ x: x / count, y: y / count }, { center, zoom, ...size });
+                tiles.push({ key: `${z}/${x}/${y}`, z, x, y, left: origin.x, top: origin.y, size: tileSize });
+            }
+        }
+        return tiles;
+    }, [tileSource, center, zoom, size]);
+
+    // Hold tiles entering the view and release those leaving it
+    useEffect(() => {
+        if (!tileSource) return;
+        const acquired = acquiredTilesRef.current;
+        const visible = new Set(visibleTiles.map(tile => tile.key));
+
+        const left = [...acquired.values()].filter(tile => !visible.has(tile.key));
+        for (const tile of left) {
+            acquired.delete(tile.key);
+            tileSource.releaseTile(tile.z, tile.x, tile.y);
+        }
+        if (left.length > 0) {
+            setTileUrls(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => visible.has(key))));
+        }
+
+        for (const tile of visibleTiles) {
+            if (acquired.has(tile.key)) continue;
+            acquired.set(tile.key, tile);
+            tileSource.acquireTile(tile.z, tile.x, tile.y).then((url) => {
+                // Ignore tiles that left the view or came from a previous source
+                if (acquired !== acquiredTilesRef.current || acquired.get(tile.key) !== tile) return;
+                setTileUrls(prev => ({ ...prev, [tile.key]: url }));
+            });
+        }
+    }, [tileSource, visibleTiles]);
+
+    const selectTileDirectory = useCallback(async () => {
+        try {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const handle = await (window as any).showDirectoryPicker({ mode: 'read' });
+            setTileSource(new LocalTileSource(new NativeFileSystemDirectoryEntry(handle)));
+        } catch (err) {
+            if ((err as Error).name !== 'AbortError') {
+                console.warn('Could not open tile directory:', err);
+            }
+        }
+    }, []);
+
+    if (!isOpen) return null;
+
+    const clusters = size.width > 0 ? clusterEvents(events, view) : [];
+
+    // Graticule at the finest spacing that is not too dense
+    const scale = getWorldScale(zoom);
+    const gridStep = [...GRID_STEPS].reverse().find(step => (step / 360) * scale >= GRID_MIN_SPACING)
+        ?? GRID_STEPS[0];
+    const northWest = worldToLonLat(screenToWorld(0, 0, view));
+    const southEast = worldToLonLat(screenToWorld(size.width, size.height, view));
+    const lonLines = gridLines(northWest.longitude, southEast.longitude, gridStep);
+    const latLines = gridLines(Math.max(-80, southEast.latitude), Math.min(80, northWest.latitude), gridStep);
+    const gridDigits = gridStep >= 1 ? 0 : Math.ceil(-Math.log10(gridStep));
+
+    const onPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        dragRef.current = { x: e.clientX, y: e.clientY, center, moved: false };
+    };
+
+    const onPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        const dx = e.clientX - drag.x;
+        const dy = e.clientY - drag.y;
+        if (!drag.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE) return;
+
+        if (!drag.moved) {
+            drag.moved = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setOpenCluster(null);
+        }
+        setCenter({ x: drag.center.x - dx / scale, y: drag.center.y - dy / scale });
+    };
+
+    const onPointerUp = () => {
+        suppressClickRef.current = dragRef.current?.moved ?? false;
+        dragRef.current = null;
+    };
+
+    const openClusterAt = (cluster: MapCluster) => {
+        if (suppressClickRef.current) return;
+
+        if (cluster.events.length === 1) {
+            onSelectClip(cluster.events[0].clip);
+            onClose();
+            return;
+        }
+
+        // Zoom into spread out clusters; list events recorded at the same spot
+        const fitted = fitView(cluster.events.map(event => event.world), size.width, size.height, 80);
+        if (fitted.zoom > zoom + 0.5) {
+            setCenter(fitted.center);
+            setZoom(fitted.zoom);
+        } else {
+            setOpenCluster(cluster);
+        }
+    };
+
+    return (
+        <div className={styles.overlay}>
+            <div className={styles.content}>
+                <div className={styles.header}>
+                    <h2 className={styles.title}>
+                        {t('map.title')}
+                        <span className={styles.subtitle}>{t('map.eventCount', { count: events.length })}</span>
+                    </h2>
+                    <div className={styles.actions}>
+                        {'showDirectoryPicker' in window && (
+                            <button className={styles.actionButton} onClick={selectTileDirectory}>
+                                {tileSource ? t('map.tilesLoaded', { name: tileSource.name }) : t('map.loadTiles')}
+                            </button>
+                        )}
+                        {tileSource && (
+                            <button className={styles.actionButton} onClick={() => setTileSource(null)}>
+                                {t('map.clearTiles')}
+                            </button>
+                        )}
+                        <button className={styles.actionButton} onClick={fitAll}>
+                            {t('map.fitAll')}
+                        </button>
+                        <button onClick={onClose} className={styles.closeButton}>
+                            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                <path d="M18 6L6 18" />
+                                <path d="M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+                </div>
+
+                <div
+                    ref={containerRef}
+                    className={styles.map}
+                    onPointerDown={onPointerDown}
+                    onPointerMove={onPointerMove}
+                    onPointerUp={onPointerUp}
+                    onPointerCancel={onPointerUp}
+                >
+                    {visibleTiles.map(tile => tileUrls[tile.key] && (
+                        <img
+                            key={tile.key}
+                            className={styles.tile}
+                            src={tileUrls[tile.key]!}
+                            alt=""
+                            draggable={false}
+                            style={{ left: tile.left, top: tile.top, width: tile.size, height: tile.size }}
+                        />
+                    ))}
+
+                    <svg className={styles.overlaySvg} width={size.width} height={size.height}>
+                        {/* Graticule */}
+                        {lonLines.map(lon => {
+                            const x = worldToScreen(lonLatToWorld(lon, 0), view).x;
+                            return (
+                                <g key={`lon${lon}`}>
+                                    <line className={styles.gridLine} x1={x} y1={0} x2={x} y2={size.height} />
+                                    <text className={styles.gridLabel} x={x + 4} y={size.height - 6}>
+                                        {lon.toFixed(gridDigits)}°
+                                    </text>
+                                </g>
+                            );
+                        })}
+                        {latLines.map(lat => {
+                            const y = worldToScreen(lonLatToWorld(0, lat), view).y;
+                            return (
+                                <g key={`lat${lat}`}>
+                                    <line className={styles.gridLine} x1={0} y1={y} x2={size.width} y2={y} />
+                                    <text className={styles.gridLabel} x={4} y={y - 4}>
+                                        {lat.toFixed(gridDigits)}°
+                                    </text>
+                                </g>
+                            );
+                        })}
+
+                        {/* Event markers */}
+                        {clusters.map(cluster => {
+                            const single = cluster.events.length === 1;
+                            const radius = single ? 7 : Math.min(22, 10 + Math.log2(cluster.events.length) * 3);
+                            return (
+                                <g
+                                    key={getClipKey(cluster.events[0].clip)}
+                                    className={styles.marker}
+                                    data-category={single ? cluster.events[0].clip.category : undefined}
+                                    onClick={() => openClusterAt(cluster)}
+                                >
+                                    <title>
+                                        {single
+                                            ? formatClipDate(cluster.events[0].clip.name)
+                                            : t('map.eventCount', { count: cluster.events.length })}
+                                    </title>
+                                    <circle cx={cluster.x} cy={cluster.y} r={radius} />
+                                    {!single && (
+                                        <text x={cluster.x} y={cluster.y} dy="0.35em">
+                                            {cluster.events.length}
+                                        </text>
+                                    )}
+                                </g>
+                            );
+                        })}
+                    </svg>
+
+                    {events.length === 0 && (
+                        <div className={styles.empty}>{t('map.noLocations')}</div>
+                    )}
+
+                    {/* Events recorded at the same spot */}
+                    {openCluster && (
+                        <div
+                            className={styles.clusterList}
+                            style={{ left: openCluster.x, top: openCluster.y }}
+                            onPointerDown={(e) => e.stopPropagation()}
+                        >
+                            {openCluster.events.map(({ clip }) => (
+                                <button
+                                    key={getClipKey(clip)}
+                                    className={styles.clusterItem}
+                                    onClick={() => {
+                                        onSelectClip(clip);
+                                        onClose();
+                                    }}
+                                >
+                                    <span>{formatClipDate(clip.name)}</span>
+                                    {clip.event?.reason && (
+                                        <span className={styles.clusterReason}>
+                                            {REASON_LABELS[clip.event.reason] ? t(REASON_LABELS[clip.event.reason]) : clip.event.reason}
+                                        </span>
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Multiples of `step` between `from` and `to`
+ */
+function gridLines(from: number, to: number, step: number): number[] {
+    const lines: number[] = [];
+    for (let i = Math.ceil(from / step); i <= Math.floor(to / step); i++) {
+        lines.push(i * step);
+    }
+    return lines;
+}
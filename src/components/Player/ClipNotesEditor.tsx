@@ -0,0 +1,83 @@
+import { useState, type KeyboardEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { normalizeTag, type ClipNote, type ClipNoteChanges } from '../../utils/clip-notes';
+
+interface ClipNotesEditorProps {
+    note?: ClipNote;
+    onChange: (changes: ClipNoteChanges) => void;
+    // Tags offered for one-click adding
+    suggestions: string[];
+}
+
+export function ClipNotesEditor({ note, onChange, suggestions }: ClipNotesEditorProps) {
+    const { t } = useTranslation();
+    const tags = note?.tags ?? [];
+    const [tagInput, setTagInput] = useState('');
+    // Saved on blur so typing doesn't write to IndexedDB on every keystroke
+    const [notesDraft, setNotesDraft] = useState(note?.notes ?? '');
+
+    const addTag = (value: string) => {
+        const tag = normalizeTag(value);
+        if (tag && !tags.includes(tag)) {
+            onChange({ tags: [...tags, tag] });
+        }
+        setTagInput('');
+    };
+
+    const handleTagKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addTag(tagInput);
+        } else if (e.key === 'Backspace' && tagInput === '' && tags.length > 0) {
+            onChange({ tags: tags.slice(0, -1) });
+        }
+    };
+
+    const unusedSuggestions = suggestions.filter(tag => !tags.includes(tag));
+
+    return (
+        <div className="clip-notes-editor">
+            <div className="clip-notes-tags">
+                {tags.map((tag) => (
+                    <span key={tag} className="clip-notes-tag">
+                        {tag}
+                        <button
+                            onClick={() => onChange({ tags: tags.filter(other => other !== tag) })}
+                            title={t('notes.removeTag', { tag })}
+                        >
+                            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                <path d="M18 6L6 18M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </span>
+                ))}
+                <input
+                    type="text"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={handleTagKeyDown}
+                    onBlur={() => tagInput && addTag(tagInput)}
+                    placeholder={t('notes.addTag')}
+                />
+            </div>
+
+            {unusedSuggestions.length > 0 && (
+                <div className="clip-notes-suggestions">
+                    {unusedSuggestions.map((tag) => (
+                        <button key={tag} className="clip-filter-chip" onClick={() => addTag(tag)}>
+                            + {tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <textarea
+                value={notesDraft}
+                onChange={(e) => setNotesDraft(e.target.value)}
+                onBlur={() => notesDraft !== (note?.notes ?? '') && onChange({ notes: notesDraft })}
+                placeholder={t('notes.notesPlaceholder')}
+                rows={4}
+            />
+        </div>
+    );
+}
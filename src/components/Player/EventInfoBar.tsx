@@ -1,39 +1,56 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { ClipInfo } from '../../types';
-import { formatClipDate, formatEventDate } from '../../utils/time-utils';
-import { REASON_LABELS } from '../../utils/constants';
-import { loadThumbnailUrl } from '../../utils/clip-scanner';
+import { formatClipDate, formatEventDate, parseClipTimestamp } from '../../utils/time-utils';
+import { formatDateTime, getBrowserTimeZone, getZoneLabel } from '../../utils/timezone';
+import { CAMERA_LABELS, REASON_LABELS } from '../../utils/constants';
+import { useThumbnailUrl } from '../../hooks/useThumbnailUrl';
+import { getClipKey } from '../../utils/clip-diff';
+import type { ClipNote, ClipNoteChanges } from '../../utils/clip-notes';
+import { ClipNotesEditor } from './ClipNotesEditor';
 
 interface EventInfoBarProps {
     clip: ClipInfo;
+    note?: ClipNote;
+    onUpdateNote?: (changes: ClipNoteChanges) => void;
+    tagSuggestions?: string[];
+    // Library time zone the clip was recorded in
+    timeZone?: string;
+    // Whether clips open on their triggering camera
+    autoFocusTrigger?: boolean;
+    onToggleAutoFocusTrigger?: () => void;
 }
 
-export function EventInfoBar({ clip }: EventInfoBarProps) {
+export function EventInfoBar({
+    clip,
+    note,
+    onUpdateNote,
+    tagSuggestions = [],
+    timeZone = getBrowserTimeZone(),
+    autoFocusTrigger = false,
+    onToggleAutoFocusTrigger,
+}: EventInfoBarProps) {
     const { t } = useTranslation();
-    const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
-
-    useEffect(() => {
-        if (clip.thumbnailHandle) {
-            loadThumbnailUrl(clip.thumbnailHandle).then(setThumbnailUrl);
-        }
-
-        return () => {
-            if (thumbnailUrl) {
-                URL.revokeObjectURL(thumbnailUrl);
-            }
-        };
-    }, [clip.thumbnailHandle]);
+    const thumbnailUrl = useThumbnailUrl(clip);
+    const [isEditingNotes, setIsEditingNotes] = useState(false);
 
     const timestamp = clip.event?.timestamp
-        ? formatEventDate(clip.event.timestamp)
+        ? formatEventDate(clip.event.timestamp, timeZone)
         : formatClipDate(clip.name);
+    const startTime = parseClipTimestamp(clip.segments[0]?.timeStr ?? clip.name, timeZone);
+    const zoneLabel = startTime ? getZoneLabel(startTime, timeZone) : '';
+    // Same moment in the viewer's zone, when it differs
+    const browserZone = getBrowserTimeZone();
+    const localTime = startTime && timeZone !== browserZone
+        ? `${formatDateTime(startTime, browserZone)} ${getZoneLabel(startTime, browserZone)}`
+        : undefined;
     const location = [clip.event?.city, clip.event?.street]
         .filter(Boolean)
         .join(', ') || t('common.unknownLocation');
     const reason = clip.event?.reason
         ? (REASON_LABELS[clip.event.reason] ? t(REASON_LABELS[clip.event.reason]) : clip.event.reason)
         : '';
+    const triggerCamera = clip.event?.camera;
 
     return (
         <div className="event-info-bar">
@@ -41,10 +58,63 @@ export function EventInfoBar({ clip }: EventInfoBarProps) {
                 {thumbnailUrl && <img src={thumbnailUrl} alt="Event thumbnail" />}
             </div>
             <div className="event-details">
-                <div className="event-timestamp">{timestamp}</div>
+                <div className="event-timestamp" title={localTime}>
+                    {timestamp}
+                    {zoneLabel && <span className="event-zone">{zoneLabel}</span>}
+                </div>
                 <div className="event-location">{location}</div>
                 {reason && <div className="event-reason">{reason}</div>}
+                {triggerCamera && (
+                    <button
+                        className={`event-trigger ${autoFocusTrigger ? 'active' : ''}`}
+                        onClick={onToggleAutoFocusTrigger}
+                        title={t('event.autoFocusTrigger')}
+                    >
+                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <path d="M23 7l-7 5 7 5V7z" />
+                            <rect x="1" y="5" width="15" height="14" rx="2" ry="2" />
+                        </svg>
+                        {t('event.triggeredBy', { camera: t(CAMERA_LABELS[triggerCamera]) })}
+                    </button>
+                )}
+                {note?.tags.map((tag) => (
+                    <div key={tag} className="event-tag">{tag}</div>
+                ))}
             </div>
+            {onUpdateNote && (
+                <div className="event-note-actions">
+                    <button
+                        className={`btn-icon small ${note?.starred ? 'active' : ''}`}
+                        onClick={() => onUpdateNote({ starred: !note?.starred })}
+                        title={note?.starred ? t('notes.unstar') : t('notes.star')}
+                    >
+                        <svg viewBox="0 0 24 24" fill={note?.starred ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth="2">
+                            <polygon points="12,2 15.09,8.26 22,9.27 17,14.14 18.18,21.02 12,17.77 5.82,21.02 7,14.14 2,9.27 8.91,8.26" />
+                        </svg>
+                    </button>
+                    <button
+                        className={`btn-icon small ${isEditingNotes || note?.notes ? 'active' : ''}`}
+                        onClick={() => setIsEditingNotes(!isEditingNotes)}
+                        title={t('notes.edit')}
+                    >
+                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <path d="M20.59 13.41l-7.17 7.17a2 2 0 01-2.83 0L2 12V2h10l8.59 8.59a2 2 0 010 2.82z" />
+                            <line x1="7" y1="7" x2="7.01" y2="7" />
+                        </svg>
+                    </button>
+                </div>
+            )}
+            {onUpdateNote && isEditingNotes && (
+                <div className="event-notes-popover">
+                    <ClipNotesEditor
+                        // Remount per clip so the notes draft starts from that clip's note
+                        key={getClipKey(clip)}
+                        note={note}
+                        onChange={onUpdateNote}
+                        suggestions={tagSuggestions}
+                    />
+                </div>
+            )}
         </div>
     );
 }
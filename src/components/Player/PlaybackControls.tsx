@@ -2,13 +2,27 @@ import { useState, useRef, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { SegmentTiming } from '../../types';
 import { formatTime } from '../../utils/time-utils';
+import { type TrackLap, formatLapTime } from '../../utils/track-mode';
+
+// Lead-in choices, in seconds, for opening clips before the event
+const EVENT_LEAD_OPTIONS = [0, 5, 10, 30, 60];
 
 interface PlaybackControlsProps {
     // Unified timeline state
     currentTime: number;
     totalDuration: number;
     segmentTimings: SegmentTiming[];
+    // Track Mode lap splits, shown instead of segments
+    laps?: TrackLap[];
     currentSegmentIndex: number;
+    // Recorded wall-clock time at a timeline position
+    getWallClockLabel?: (time: number) => string;
+    // Timeline position of the event moment (null if unknown)
+    eventTime?: number | null;
+    onJumpToEvent?: () => void;
+    // Seconds before the event that clips open at (null = from the beginning)
+    eventLeadSeconds?: number | null;
+    onEventLeadChange?: (seconds: number | null) => void;
 
     // Playback state
     isPlaying: boolean;
@@ -33,7 +47,13 @@ export function PlaybackControls({
     currentTime,
     totalDuration,
     segmentTimings,
+    laps = [],
     currentSegmentIndex,
+    getWallClockLabel,
+    eventTime = null,
+    onJumpToEvent,
+    eventLeadSeconds = null,
+    onEventLeadChange,
     isPlaying,
     playbackRate,
     onPlayPause,
@@ -53,6 +73,7 @@ export function PlaybackControls({
     const btnRef = useRef<HTMLButtonElement>(null);
 
     const progressPercent = totalDuration > 0 ? (currentTime / totalDuration) * 100 : 0;
+    const showEventMarker = eventTime !== null && totalDuration > 0;
 
     // Close menu when clicking outside
     useEffect(() => {
@@ -78,16 +99,45 @@ export function PlaybackControls({
             <div className="progress-container">
                 <div className="timeline-row">
                     <span className="time-text">{formatTime(currentTime)}</span>
+                    {getWallClockLabel && (
+                        <span className="time-text wall-clock" title={t('controls.wallClock')}>
+                            {getWallClockLabel(currentTime)}
+                        </span>
+                    )}
 
                     <div className="timeline-slider-container">
+                        {/* Track Mode lap splits */}
+                        {laps.length > 0 && totalDuration > 0 && (
+                            <div className="clip-timeline lap-timeline">
+                                {laps.map((lap) => (
+                                    <div
+                                        key={`${lap.lap}-${lap.startTime}`}
+                                        className={`clip-segment ${currentTime >= lap.startTime && currentTime < lap.endTime ? 'active' : ''}`}
+                                        title={`${t('controls.lap', { lap: lap.lap })} · ${formatLapTime(lap.duration)}`}
+                                        style={{
+                                            flex: Math.max(lap.duration, 0.001),
+                                        }}
+                                        onClick={() => onSeekPercent((lap.startTime / totalDuration) * 100)}
+                                    />
+                                ))}
+                                {/* Video running past the end of the lap data */}
+                                {totalDuration > laps[laps.length - 1].endTime && (
+                                    <div style={{ flex: totalDuration - laps[laps.length - 1].endTime }} />
+                                )}
+                            </div>
+                        )}
+
                         {/* Unified timeline with segment markers */}
-                        {showSegments && (
+                        {showSegments && laps.length === 0 && (
                             <div className="clip-timeline">
                                 {segmentTimings.map((timing) => (
                                     <div
                                         key={timing.index}
                                         className={`clip-segment ${timing.index === currentSegmentIndex ? 'active' : ''}`}
-                                        title={`${t('common.segment')} ${timing.index + 1}`}
+                                        title={[
+                                            `${t('common.segment')} ${timing.index + 1}`,
+                                            getWallClockLabel?.(timing.startTime),
+                                        ].filter(Boolean).join(' · ')}
                                         style={{
                                             flex: timing.duration,
                                         }}
@@ -97,15 +147,30 @@ export function PlaybackControls({
                         )}
 
                         {/* Single unified progress bar */}
-                        <input
-                            type="range"
-                            className="progress-bar"
-                            min="0"
-                            max="100"
-                            value={progressPercent}
-                            step="0.1"
-                            onChange={(e) => onSeekPercent(parseFloat(e.target.value))}
-                        />
+                        <div className="progress-track">
+                            <input
+                                type="range"
+                                className="progress-bar"
+                                min="0"
+                                max="100"
+                                value={progressPercent}
+                                step="0.1"
+                                onChange={(e) => onSeekPercent(parseFloat(e.target.value))}
+                            />
+
+                            {/* Moment the event was triggered */}
+                            {showEventMarker && (
+                                <button
+                                    className="timeline-event-marker"
+                                    style={{ left: `${(eventTime / totalDuration) * 100}%` }}
+                                    onClick={onJumpToEvent}
+                                    title={[
+                                        t('controls.eventMarker'),
+                                        getWallClockLabel?.(eventTime) || formatTime(eventTime),
+                                    ].join(' · ')}
+                                />
+                            )}
+                        </div>
                     </div>
 
                     <span className="time-text total">{formatTime(totalDuration)}</span>
@@ -224,6 +289,38 @@ export function PlaybackControls({
                                     <option value="2">2x {t('common.speed')}</option>
                                 </select>
                             </div>
+
+                            {onEventLeadChange && (
+                                <div className="menu-item" onClick={(e) => e.stopPropagation()}>
+                                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                        <path d="M4 22V4" />
+                                        <path d="M4 4h12l-2 4 2 4H4" />
+                                    </svg>
+                                    <select
+                                        value={eventLeadSeconds === null ? 'off' : String(eventLeadSeconds)}
+                                        title={t('controls.startBeforeEvent')}
+                                        onChange={(e) => {
+                                            onEventLeadChange(e.target.value === 'off' ? null : Number(e.target.value));
+                                            setIsMenuOpen(false);
+                                        }}
+                                        style={{
+                                            background: 'transparent',
+                                            border: 'none',
+                                            color: 'inherit',
+                                            width: '100%',
+                                            cursor: 'pointer',
+                                            fontSize: 'inherit'
+                                        }}
+                                    >
+                                        <option value="off">{t('controls.startFromBeginning')}</option>
+                                        {EVENT_LEAD_OPTIONS.map(seconds => (
+                                            <option key={seconds} value={seconds}>
+                                                {t('controls.startBeforeEventSeconds', { seconds })}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -1,24 +1,74 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { ClipInfo, LayoutMode } from '../../types';
 import { useUnifiedTimeline } from '../../hooks/useUnifiedTimeline';
 import { useVideoPlayer } from '../../hooks/useVideoPlayer';
 import { useSeiData } from '../../hooks/useSeiData';
 import { useVideoExport } from '../../hooks/useVideoExport';
+import { useTrackData } from '../../hooks/useTrackData';
 import { EventInfoBar } from './EventInfoBar';
 import { VideoGrid } from './VideoGrid';
 import { PlaybackControls } from './PlaybackControls';
 import { TelemetryPanel } from './TelemetryPanel';
+import { SeiInspector } from './SeiInspector';
 import { ExportDialog } from '../ExportDialog/ExportDialog';
+import { getClipKey } from '../../utils/clip-diff';
+import type { ClipNote, ClipNoteChanges } from '../../utils/clip-notes';
+import { parseClipTimestamp } from '../../utils/time-utils';
+import { formatTimeOfDay, getBrowserTimeZone } from '../../utils/timezone';
 
 interface PlayerProps {
     clip: ClipInfo;
+    note?: ClipNote;
+    onUpdateNote?: (changes: ClipNoteChanges) => void;
+    tagSuggestions?: string[];
+    // Library time zone the clip was recorded in
+    timeZone?: string;
 }
 
-export function Player({ clip }: PlayerProps) {
+// localStorage key for opening clips on their triggering camera
+const AUTO_FOCUS_TRIGGER_KEY = 'anicam:autoFocusTrigger';
+// localStorage key for how many seconds before the event clips start ('off' = from the beginning)
+const EVENT_LEAD_KEY = 'anicam:eventLeadSeconds';
+const DEFAULT_EVENT_LEAD = 10;
+// localStorage key for keeping the raw SEI inspector open
+const SEI_INSPECTOR_KEY = 'anicam:seiInspector';
+
+function loadEventLead(): number | null {
+    const stored = localStorage.getItem(EVENT_LEAD_KEY);
+    if (stored === 'off') return null;
+    const seconds = stored === null ? NaN : Number(stored);
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_EVENT_LEAD;
+}
+
+export function Player({ clip, note, onUpdateNote, tagSuggestions, timeZone = getBrowserTimeZone() }: PlayerProps) {
     const [layout, setLayout] = useState<LayoutMode>('3x2');
     const [lastGridLayout, setLastGridLayout] = useState<LayoutMode>('3x2');
     const [isTelemetryHidden, setIsTelemetryHidden] = useState(false);
     const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+    const [autoFocusTrigger, setAutoFocusTrigger] = useState(
+        () => localStorage.getItem(AUTO_FOCUS_TRIGGER_KEY) === 'true'
+    );
+
+    const [eventLeadSeconds, setEventLeadSeconds] = useState(loadEventLead);
+    const [isSeiInspectorOpen, setIsSeiInspectorOpen] = useState(
+        () => localStorage.getItem(SEI_INSPECTOR_KEY) === 'true'
+    );
+
+    useEffect(() => {
+        localStorage.setItem(AUTO_FOCUS_TRIGGER_KEY, String(autoFocusTrigger));
+    }, [autoFocusTrigger]);
+
+    useEffect(() => {
+        localStorage.setItem(EVENT_LEAD_KEY, eventLeadSeconds === null ? 'off' : String(eventLeadSeconds));
+    }, [eventLeadSeconds]);
+
+    useEffect(() => {
+        localStorage.setItem(SEI_INSPECTOR_KEY, String(isSeiInspectorOpen));
+    }, [isSeiInspectorOpen]);
+
+    // Read at load time only, so changing the lead doesn't reload the open clip
+    const eventLeadRef = useRef(eventLeadSeconds);
+    eventLeadRef.current = eventLeadSeconds;
 
     // Unified timeline hook
     const {
@@ -26,10 +76,13 @@ export function Player({ clip }: PlayerProps) {
         currentTime,
         currentSegmentIndex,
         segmentTimings,
+        eventTime,
         videoRefs,
+        seekTo,
         seekToPercent,
         skip,
         loadClip,
+        refreshClip,
         getCurrentSegment,
     } = useUnifiedTimeline({
         onEnded: () => {
@@ -51,11 +104,20 @@ export function Player({ clip }: PlayerProps) {
     const {
         hasData: hasSeiData,
         frameCount: seiFrameCount,
+        sequenceReport: seiSequenceReport,
         getTelemetryAtTime,
         loadSegment: loadSeiSegment,
         reset: resetSei,
     } = useSeiData();
 
+    // Track Mode lap data, used for telemetry when the video has no SEI
+    const {
+        trackData,
+        hasData: hasTrackData,
+        sampleCount: trackSampleCount,
+        getTelemetryAtTime: getTrackTelemetryAtTime,
+    } = useTrackData(clip);
+
     // Video export hook
     const {
         isExporting,
@@ -66,12 +128,19 @@ export function Player({ clip }: PlayerProps) {
         logs,
     } = useVideoExport();
 
-    // Load clip when it changes
+    // Load clip when it changes; a rescanned version of the same clip only refreshes the timeline
+    const loadedClipKeyRef = useRef<string | null>(null);
     useEffect(() => {
-        loadClip(clip);
+        const clipKey = getClipKey(clip);
+        if (loadedClipKeyRef.current === clipKey) {
+            refreshClip(clip);
+            return;
+        }
+        loadedClipKeyRef.current = clipKey;
+        loadClip(clip, { startBeforeEvent: eventLeadRef.current });
         resetSei();
         play();
-    }, [clip, loadClip, resetSei, play]);
+    }, [clip, loadClip, refreshClip, resetSei, play]);
 
     // Load SEI data when segment changes
     const currentSegment = getCurrentSegment();
@@ -85,7 +154,26 @@ export function Player({ clip }: PlayerProps) {
         ? currentTime - (segmentTimings[currentSegmentIndex]?.startTime || 0)
         : 0;
 
-    const currentTelemetry = getTelemetryAtTime(currentLocalTime);
+    const useTrackTelemetry = !hasSeiData && hasTrackData;
+    const currentTelemetry = useTrackTelemetry
+        ? getTrackTelemetryAtTime(currentTime)
+        : getTelemetryAtTime(currentLocalTime);
+
+    // Recorded wall-clock time at a point of the unified timeline
+    const getWallClockLabel = useCallback((time: number) => {
+        const timing = segmentTimings.find(t => time < t.endTime) ?? segmentTimings[segmentTimings.length - 1];
+        const segment = timing && clip.segments[timing.index];
+        const start = segment ? parseClipTimestamp(segment.timeStr, timeZone) : 0;
+        if (!start) return '';
+        return formatTimeOfDay(start + (time - timing.startTime) * 1000, timeZone);
+    }, [clip, segmentTimings, timeZone]);
+
+    // Replay the event moment with the configured lead-in
+    const jumpToEvent = useCallback(() => {
+        if (eventTime === null) return;
+        seekTo(Math.max(0, eventTime - (eventLeadSeconds ?? 0)));
+        play();
+    }, [eventTime, eventLeadSeconds, seekTo, play]);
 
     // Wrapper to handle layout changes and preference tracking
     const handleLayoutChange = useCallback((newLayout: LayoutMode) => {
@@ -139,12 +227,21 @@ export function Player({ clip }: PlayerProps) {
             getTelemetryAtTime,
             totalDuration: segmentDuration,
             currentSegmentIndex,
+            timeZone,
         });
-    }, [startExport, clip, currentSegment, videoRefs, getTelemetryAtTime, currentSegmentIndex, segmentTimings]);
+    }, [startExport, clip, currentSegment, videoRefs, getTelemetryAtTime, currentSegmentIndex, segmentTimings, timeZone]);
 
     return (
         <div className="player-area active">
-            <EventInfoBar clip={clip} />
+            <EventInfoBar
+                clip={clip}
+                note={note}
+                onUpdateNote={onUpdateNote}
+                tagSuggestions={tagSuggestions}
+                timeZone={timeZone}
+                autoFocusTrigger={autoFocusTrigger}
+                onToggleAutoFocusTrigger={() => setAutoFocusTrigger(!autoFocusTrigger)}
+            />
 
             <VideoGrid
                 clip={clip}
@@ -153,20 +250,37 @@ export function Player({ clip }: PlayerProps) {
                 layout={layout}
                 onLayoutChange={handleLayoutChange}
                 preferredLayout={lastGridLayout}
+                autoFocusTrigger={autoFocusTrigger}
             />
 
             <TelemetryPanel
                 telemetry={currentTelemetry}
-                hasData={hasSeiData}
-                frameCount={seiFrameCount}
+                hasData={hasSeiData || hasTrackData}
+                frameCount={useTrackTelemetry ? trackSampleCount : seiFrameCount}
+                dataSource={useTrackTelemetry ? 'track' : 'sei'}
+                sequenceReport={useTrackTelemetry ? null : seiSequenceReport}
                 isHidden={isTelemetryHidden}
+                onToggleInspector={() => setIsSeiInspectorOpen(!isSeiInspectorOpen)}
             />
 
+            {isSeiInspectorOpen && !isTelemetryHidden && (
+                <SeiInspector
+                    frame={useTrackTelemetry ? null : currentTelemetry}
+                    onClose={() => setIsSeiInspectorOpen(false)}
+                />
+            )}
+
             <PlaybackControls
                 currentTime={currentTime}
                 totalDuration={totalDuration}
                 segmentTimings={segmentTimings}
+                laps={trackData?.laps}
                 currentSegmentIndex={currentSegmentIndex}
+                getWallClockLabel={getWallClockLabel}
+                eventTime={eventTime}
+                onJumpToEvent={jumpToEvent}
+                eventLeadSeconds={eventLeadSeconds}
+                onEventLeadChange={setEventLeadSeconds}
                 isPlaying={isPlaying}
                 playbackRate={playbackRate}
                 onPlayPause={togglePlayPause}
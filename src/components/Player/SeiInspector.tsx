@@ -0,0 +1,121 @@
+import { useTranslation } from 'react-i18next';
+import type { SeiData, SeiProtoField } from '../../types';
+import { getSeiSchema } from '../../utils/sei-schema';
+
+interface SeiInspectorProps {
+    // SEI frame at the playhead, or null when there is none
+    frame: SeiData | null;
+    onClose: () => void;
+}
+
+// Protobuf wire types
+const WIRE_FIXED64 = 1;
+const WIRE_FIXED32 = 5;
+
+const WIRE_TYPE_NAMES: Record<number, string> = {
+    0: 'varint',
+    [WIRE_FIXED64]: 'fixed64',
+    2: 'bytes',
+    [WIRE_FIXED32]: 'fixed32',
+};
+
+const HEX_BYTES_PER_ROW = 16;
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join(' ');
+}
+
+// Offset-prefixed hex dump, one row per 16 bytes
+function formatHexDump(bytes: Uint8Array): string {
+    const rows: string[] = [];
+    for (let offset = 0; offset < bytes.length; offset += HEX_BYTES_PER_ROW) {
+        const row = bytes.subarray(offset, offset + HEX_BYTES_PER_ROW);
+        rows.push(`${offset.toString(16).padStart(4, '0')}  ${toHex(row)}`);
+    }
+    return rows.join('\n');
+}
+
+// Raw bytes plus the likely reading of fixed-width values
+function formatUnknownValue(field: SeiProtoField): string {
+    const { value } = field;
+    if (typeof value === 'number') return String(value);
+
+    const view = new DataView(value.buffer, value.byteOffset, value.byteLength);
+    if (field.wireType === WIRE_FIXED32) return `${toHex(value)} (${view.getFloat32(0, true)})`;
+    if (field.wireType === WIRE_FIXED64) return `${toHex(value)} (${view.getFloat64(0, true)})`;
+    return toHex(value);
+}
+
+export function SeiInspector({ frame, onClose }: SeiInspectorProps) {
+    const { t } = useTranslation();
+
+    const knownFields = frame
+        ? Object.entries(getSeiSchema(frame.version))
+            .filter(([, def]) => frame[def.name] !== undefined)
+            .map(([number, def]) => ({ number, name: def.name, value: String(frame[def.name]) }))
+        : [];
+    const unknownFields = frame?.unknownFields ?? [];
+
+    return (
+        <div className="sei-inspector">
+            <div className="sei-inspector-header">
+                <span className="sei-inspector-title">{t('inspector.title')}</span>
+                {frame?.frame_seq_no !== undefined && (
+                    <span className="sei-inspector-frame">#{frame.frame_seq_no}</span>
+                )}
+                <button className="sei-inspector-close" onClick={onClose} title={t('inspector.close')}>
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M18 6L6 18M6 6l12 12" />
+                    </svg>
+                </button>
+            </div>
+
+            {!frame ? (
+                <div className="sei-inspector-empty">{t('inspector.noFrame')}</div>
+            ) : (
+                <div className="sei-inspector-body">
+                    <section className="sei-inspector-section">
+                        <h4>{t('inspector.knownFields')}</h4>
+                        <table className="sei-inspector-table">
+                            <tbody>
+                                {knownFields.map(field => (
+                                    <tr key={field.number}>
+                                        <td className="field-number">{field.number}</td>
+                                        <td>{field.name}</td>
+                                        <td className="field-value">{field.value}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+
+                    <section className="sei-inspector-section">
+                        <h4>{t('inspector.unknownFields', { count: unknownFields.length })}</h4>
+                        {unknownFields.length === 0 ? (
+                            <div className="sei-inspector-empty">{t('inspector.noUnknownFields')}</div>
+                        ) : (
+                            <table className="sei-inspector-table">
+                                <tbody>
+                                    {unknownFields.map((field, index) => (
+                                        <tr key={index}>
+                                            <td className="field-number">{field.number}</td>
+                                            <td>{WIRE_TYPE_NAMES[field.wireType] ?? field.wireType}</td>
+                                            <td className="field-value">{formatUnknownValue(field)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </section>
+
+                    {frame.rawNal && (
+                        <section className="sei-inspector-section">
+                            <h4>{t('inspector.rawNal', { count: frame.rawNal.length })}</h4>
+                            <pre className="sei-inspector-hex">{formatHexDump(frame.rawNal)}</pre>
+                        </section>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -2,14 +2,24 @@ import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { SeiData } from '../../types';
 import { GEAR_LABELS, AUTOPILOT_LABELS } from '../../utils/constants';
+import type { SeiSequenceReport } from '../../utils/sei-sequence';
 
 interface TelemetryPanelProps {
     telemetry: SeiData | null;
     hasData: boolean;
     frameCount: number;
     isHidden: boolean;
+    // Where the telemetry comes from: video SEI or a Track Mode CSV
+    dataSource?: 'sei' | 'track';
+    // Dropped/duplicated SEI frames in the current segment
+    sequenceReport?: SeiSequenceReport | null;
+    // Opens the raw SEI inspector from the SEI badge
+    onToggleInspector?: () => void;
 }
 
+// Eight-point compass directions, clockwise from north
+const CARDINAL_DIRECTIONS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
 // Steering Wheel Icon Component
 // Steering Wheel Icon Component
 function SteeringWheelIcon({ rotation }: { rotation: number }) {
@@ -56,6 +66,23 @@ function PedalBar({ label, value, color, active = true, customText }: PedalBarPr
     );
 }
 
+// Compass Component: the needle points in the direction of travel
+function Compass({ heading }: { heading?: number }) {
+    return (
+        <svg viewBox="0 0 32 32" className="compass-icon">
+            <circle cx="16" cy="16" r="14" className="compass-ring" />
+            <text x="16" y="9" textAnchor="middle" className="compass-north">N</text>
+            {heading !== undefined && (
+                <path
+                    d="M16 8l4 12-4-3-4 3z"
+                    className="compass-needle"
+                    transform={`rotate(${heading} 16 16)`}
+                />
+            )}
+        </svg>
+    );
+}
+
 function BlinkerArrow() {
     return (
         <svg viewBox="0 0 24 24" fill="currentColor" className="blinker-svg">
@@ -71,6 +98,9 @@ export function TelemetryPanel({
     hasData,
     frameCount,
     isHidden,
+    dataSource = 'sei',
+    sequenceReport = null,
+    onToggleInspector,
 }: TelemetryPanelProps) {
     const { t } = useTranslation();
     const [showAdvanced, setShowAdvanced] = useState(false);
@@ -111,6 +141,19 @@ export function TelemetryPanel({
             ? `${telemetry.latitude_deg.toFixed(5)}, ${telemetry.longitude_deg.toFixed(5)}`
             : '--';
 
+    // Heading (degrees clockwise from north)
+    const heading = telemetry?.heading_deg;
+    let headingText = '--';
+    if (heading !== undefined) {
+        const normalized = ((heading % 360) + 360) % 360;
+        const cardinal = CARDINAL_DIRECTIONS[Math.round(normalized / 45) % 8];
+        headingText = `${Math.round(normalized) % 360}° ${t(`telemetry.cardinal.${cardinal}`)}`;
+    }
+
+    // SEI schema version of the current frame
+    const seiLabel = telemetry?.version !== undefined
+        ? `${t('telemetry.sei')} v${telemetry.version}`
+        : t('telemetry.sei');
 
     return (
         <div className={`telemetry-panel compact ${isHidden ? 'hidden' : ''}`}>
@@ -199,11 +242,40 @@ export function TelemetryPanel({
                     <div className="gps-value">{gps}</div>
                 </div>
 
+                {/* Heading Section */}
+                <div className="telemetry-section heading-section" title={t('telemetry.heading')}>
+                    <Compass heading={heading} />
+                    <div className="heading-value">{headingText}</div>
+                </div>
+
                 {/* SEI Status */}
                 <div className="telemetry-section sei-section">
-                    <span className={`sei-badge ${hasData ? 'active' : ''}`}>
-                        {hasData ? `${t('telemetry.sei')} (${frameCount})` : t('telemetry.noSei')}
-                    </span>
+                    {dataSource === 'sei' && hasData && onToggleInspector ? (
+                        <button
+                            className="sei-badge active clickable"
+                            onClick={onToggleInspector}
+                            title={t('inspector.toggle')}
+                        >
+                            {`${seiLabel} (${frameCount})`}
+                        </button>
+                    ) : (
+                        <span className={`sei-badge ${hasData ? 'active' : ''}`}>
+                            {hasData
+                                ? `${dataSource === 'track' ? t('telemetry.trackData') : seiLabel} (${frameCount})`
+                                : t('telemetry.noSei')}
+                        </span>
+                    )}
+                    {sequenceReport && sequenceReport.issues.length > 0 && (
+                        <span
+                            className="sei-badge warning"
+                            title={t('telemetry.frameIssuesHint')}
+                        >
+                            {t('telemetry.frameIssues', {
+                                dropped: sequenceReport.dropped,
+                                duplicated: sequenceReport.duplicated,
+                            })}
+                        </span>
+                    )}
                 </div>
             </div>
         </div>
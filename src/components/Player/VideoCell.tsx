@@ -7,13 +7,15 @@ interface VideoCellProps {
     camera: Camera;
     hasVideo: boolean;
     isFocused: boolean;
+    // Camera that triggered the clip's event
+    isTrigger?: boolean;
     showBackButton?: boolean;
     onBack?: () => void;
     onClick: () => void;
 }
 
 export const VideoCell = forwardRef<HTMLVideoElement | null, VideoCellProps>(
-    function VideoCell({ camera, hasVideo, isFocused, showBackButton, onBack, onClick }, ref) {
+    function VideoCell({ camera, hasVideo, isFocused, isTrigger, showBackButton, onBack, onClick }, ref) {
         const { t } = useTranslation();
 
         const handleBack = (e: React.MouseEvent | React.TouchEvent) => {
@@ -23,7 +25,7 @@ export const VideoCell = forwardRef<HTMLVideoElement | null, VideoCellProps>(
 
         return (
             <div
-                className={`video-cell ${!hasVideo ? 'no-video' : ''} ${isFocused ? 'focused' : ''}`}
+                className={`video-cell ${!hasVideo ? 'no-video' : ''} ${isFocused ? 'focused' : ''} ${isTrigger ? 'trigger' : ''}`}
                 data-camera={camera}
                 onClick={onClick}
             >
@@ -3,6 +3,7 @@ import type { Camera, ClipInfo, LayoutMode, Segment } from '../../types';
 import { CAMERAS } from '../../utils/constants';
 import { VideoCell } from './VideoCell';
 import { loadVideoUrl } from '../../utils/clip-scanner';
+import { getClipKey } from '../../utils/clip-diff';
 
 interface VideoGridProps {
     clip: ClipInfo;
@@ -11,6 +12,8 @@ interface VideoGridProps {
     layout: LayoutMode;
     onLayoutChange: (layout: LayoutMode) => void;
     preferredLayout?: LayoutMode;
+    // Open each clip in single layout on the camera that triggered its event
+    autoFocusTrigger?: boolean;
 }
 
 export function VideoGrid({
@@ -20,8 +23,14 @@ export function VideoGrid({
     layout,
     onLayoutChange,
     preferredLayout = '3x2',
+    autoFocusTrigger = false,
 }: VideoGridProps) {
     const [focusedCamera, setFocusedCamera] = useState<Camera>('front');
+    const triggerCamera = clip.event?.camera && clip.cameras.has(clip.event.camera) ? clip.event.camera : null;
+    // Rescans replace the clip object; only a different clip should refocus
+    const clipKey = getClipKey(clip);
+    // Clip and camera the trigger focus last completed for, so later layout changes stick
+    const triggerFocusKeyRef = useRef<string | null>(null);
     // Use ref to track URLs for proper cleanup without causing infinite loops
     const loadedUrlsRef = useRef<Record<Camera, string>>({} as Record<Camera, string>);
     // State only for triggering re-renders if needed (currently unused but kept for future use)
@@ -127,14 +136,27 @@ export function VideoGrid({
         [layout, onLayoutChange, preferredLayout]
     );
 
-    // Auto-switch to 2x2 if no pillar cameras
+    // Decide the layout in one place: single on the triggering camera when a
+    // clip opens, otherwise 2x2 instead of 3x2 if there are no pillar cameras
     useEffect(() => {
-        if (!clip.cameras.has('left_pillar') && !clip.cameras.has('right_pillar')) {
-            if (layout === '3x2') {
-                onLayoutChange('2x2');
+        const focusKey = autoFocusTrigger && triggerCamera ? `${clipKey}/${triggerCamera}` : null;
+
+        if (focusKey !== null && focusKey !== triggerFocusKeyRef.current && triggerCamera) {
+            setFocusedCamera(triggerCamera);
+            if (layout === 'single') {
+                // Done once single layout is in place
+                triggerFocusKeyRef.current = focusKey;
+            } else {
+                onLayoutChange('single');
             }
+            return;
+        }
+
+        triggerFocusKeyRef.current = focusKey;
+        if (layout === '3x2' && !clip.cameras.has('left_pillar') && !clip.cameras.has('right_pillar')) {
+            onLayoutChange('2x2');
         }
-    }, [clip.cameras, layout, onLayoutChange]);
+    }, [clipKey, triggerCamera, autoFocusTrigger, clip.cameras, layout, onLayoutChange]);
 
     const layoutClass = layout === '3x2' ? '' : `layout-${layout}`;
 
@@ -151,6 +173,7 @@ export function VideoGrid({
                     camera={cam}
                     hasVideo={clip.cameras.has(cam)}
                     isFocused={focusedCamera === cam}
+                    isTrigger={triggerCamera === cam}
                     showBackButton={layout === 'single'}
                     onBack={() => onLayoutChange(backLayout)}
                     onClick={() => handleClick(cam)}
@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { ClipCategory, ClipInfo, ClipsByCategory } from '../../types';
+import { ClipItem } from './ClipItem';
+import type { ClipNote } from '../../utils/clip-notes';
+import { CLIP_CATEGORIES } from '../../utils/constants';
+import { getClipKey } from '../../utils/clip-diff';
+import { getDayKey, getLatestClipTime, getMonthGrid, groupClipsByDay } from '../../utils/clip-calendar';
+
+interface ClipCalendarProps {
+    clips: ClipsByCategory;
+    currentClip: ClipInfo | null;
+    onSelectClip: (clip: ClipInfo) => void;
+    issueCounts?: Record<string, number>;
+    sourceLabels?: Record<string, string>;
+    getNote?: (clip: ClipInfo) => ClipNote | undefined;
+    getTimeZone?: (clip: ClipInfo) => string;
+}
+
+const CATEGORY_KEYS: Record<ClipCategory, string> = {
+    SavedClips: 'common.savedClips',
+    SentryClips: 'common.sentryClips',
+    RecentClips: 'common.recentClips',
+    TeslaTrackMode: 'common.trackModeClips',
+};
+
+export function ClipCalendar({
+    clips,
+    currentClip,
+    onSelectClip,
+    issueCounts,
+    sourceLabels,
+    getNote,
+    getTimeZone,
+}: ClipCalendarProps) {
+    const { t, i18n } = useTranslation();
+    const [month, setMonth] = useState(() => new Date(getLatestClipTime(clips) ?? Date.now()));
+    const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+    // Jump to the newest month when a different library is loaded
+    const latestMonth = getDayKey(getLatestClipTime(clips) ?? Date.now()).slice(0, 7);
+    useEffect(() => {
+        const [year, monthIndex] = latestMonth.split('-').map(Number);
+        setMonth(new Date(year, monthIndex - 1, 1));
+        setSelectedDay(null);
+    }, [latestMonth]);
+
+    const days = useMemo(() => groupClipsByDay(clips), [clips]);
+    const grid = getMonthGrid(month.getFullYear(), month.getMonth());
+    const todayKey = getDayKey(Date.now());
+
+    // Monday-first weekday names in the current language
+    const weekdays = Array.from({ length: 7 }, (_, i) =>
+        new Date(2024, 0, 1 + i).toLocaleDateString(i18n.language, { weekday: 'narrow' })
+    );
+
+    const changeMonth = (delta: number) => {
+        setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+    };
+
+    const selectedClips = selectedDay ? days.get(selectedDay) : undefined;
+
+    return (
+        <div className="clip-calendar">
+            <div className="calendar-header">
+                <button className="btn-icon small" onClick={() => changeMonth(-1)} title={t('calendar.previousMonth')}>
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polyline points="15,18 9,12 15,6" />
+                    </svg>
+                </button>
+                <span className="calendar-title">
+                    {month.toLocaleDateString(i18n.language, { year: 'numeric', month: 'long' })}
+                </span>
+                <button className="btn-icon small" onClick={() => changeMonth(1)} title={t('calendar.nextMonth')}>
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polyline points="9,18 15,12 9,6" />
+                    </svg>
+                </button>
+            </div>
+
+            <div className="calendar-grid">
+                {weekdays.map((weekday, i) => (
+                    <div key={i} className="calendar-weekday">{weekday}</div>
+                ))}
+                {grid.map((date) => {
+                    const key = getDayKey(date);
+                    const dayClips = days.get(key);
+                    const isOutside = date.getMonth() !== month.getMonth();
+
+                    return (
+                        <button
+                            key={key}
+                            className={[
+                                'calendar-day',
+                                isOutside ? 'outside' : '',
+                                dayClips ? 'has-clips' : '',
+                                key === selectedDay ? 'selected' : '',
+                                key === todayKey ? 'today' : '',
+                            ].join(' ')}
+                            onClick={() => setSelectedDay(key === selectedDay ? null : key)}
+                            disabled={!dayClips}
+                        >
+                            <span className="calendar-date">{date.getDate()}</span>
+                            {dayClips && (
+                                <span className="calendar-counts">
+                                    {CLIP_CATEGORIES.filter(category => dayClips[category].length > 0).map(category => (
+                                        <span
+                                            key={category}
+                                            className="calendar-count"
+                                            data-category={category}
+                                            title={t(CATEGORY_KEYS[category])}
+                                        >
+                                            {dayClips[category].length}
+                                        </span>
+                                    ))}
+                                </span>
+                            )}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {/* Day drill-down */}
+            {selectedClips && (
+                <div className="calendar-day-clips">
+                    {CLIP_CATEGORIES.filter(category => selectedClips[category].length > 0).map(category => (
+                        <div key={category} className="calendar-day-category">
+                            <div className="calendar-day-category-title" data-category={category}>
+                                {t(CATEGORY_KEYS[category])}
+                            </div>
+                            {selectedClips[category].map((clip) => (
+                                <ClipItem
+                                    key={getClipKey(clip)}
+                                    clip={clip}
+                                    isActive={currentClip !== null && getClipKey(currentClip) === getClipKey(clip)}
+                                    onClick={() => onSelectClip(clip)}
+                                    issueCount={issueCounts?.[getClipKey(clip)]}
+                                    sourceLabel={clip.source ? sourceLabels?.[clip.source] : undefined}
+                                    note={getNote?.(clip)}
+                                    timeZone={getTimeZone?.(clip)}
+                                />
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
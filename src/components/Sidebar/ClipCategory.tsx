@@ -1,21 +1,36 @@
 
-import { useState } from 'react';
+import { useRef, useState, type RefObject } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { ClipCategory, ClipInfo } from '../../types';
 import { ClipItem } from './ClipItem';
+import type { ClipNote } from '../../utils/clip-notes';
+import { getClipKey } from '../../utils/clip-diff';
+import { useVirtualRows } from '../../hooks/useVirtualRows';
+
+// Fixed row height (px) so only visible rows need to be mounted; keep in sync with .clip-row
+const CLIP_ROW_HEIGHT = 56;
 
 interface ClipCategoryProps {
     category: ClipCategory;
     clips: ClipInfo[];
+    // Unfiltered clip count, shown while a filter is active
+    totalCount?: number;
     currentClip: ClipInfo | null;
     onSelectClip: (clip: ClipInfo) => void;
     defaultExpanded?: boolean;
+    issueCounts?: Record<string, number>;
+    sourceLabels?: Record<string, string>;
+    getNote?: (clip: ClipInfo) => ClipNote | undefined;
+    getTimeZone?: (clip: ClipInfo) => string;
+    // Scrolling ancestor used to work out which rows are visible
+    scrollContainerRef?: RefObject<HTMLDivElement>;
 }
 
 const CATEGORY_KEYS: Record<ClipCategory, string> = {
     SavedClips: 'common.savedClips',
     SentryClips: 'common.sentryClips',
     RecentClips: 'common.recentClips',
+    TeslaTrackMode: 'common.trackModeClips',
 };
 
 const CATEGORY_ICONS: Record<ClipCategory, JSX.Element> = {
@@ -37,37 +52,70 @@ const CATEGORY_ICONS: Record<ClipCategory, JSX.Element> = {
             <polyline points="12,6 12,12 16,14" />
         </svg>
     ),
+    TeslaTrackMode: (
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M5 22V3" />
+            <path d="M5 3h14v10H5" />
+            <path d="M5 8h14M9.7 3v10M14.3 3v10" />
+        </svg>
+    ),
 };
 
 export function ClipCategorySection({
     category,
     clips,
+    totalCount,
     currentClip,
     onSelectClip,
     defaultExpanded = false,
+    issueCounts,
+    sourceLabels,
+    getNote,
+    getTimeZone,
+    scrollContainerRef,
 }: ClipCategoryProps) {
     const { t } = useTranslation();
     const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+    const listRef = useRef<HTMLDivElement>(null);
+    const rowCount = isExpanded ? clips.length : 0;
+    const { start, end } = useVirtualRows(listRef, scrollContainerRef, rowCount, CLIP_ROW_HEIGHT);
 
     return (
         <div className={`category ${isExpanded ? 'expanded' : ''}`} data-category={category}>
             <div className="category-header" onClick={() => setIsExpanded(!isExpanded)}>
                 {CATEGORY_ICONS[category]}
                 <span>{t(CATEGORY_KEYS[category])}</span>
-                <span className="count">{clips.length}</span>
+                <span className="count">
+                    {totalCount !== undefined ? `${clips.length}/${totalCount}` : clips.length}
+                </span>
             </div>
             <div className="category-clips">
                 {clips.length === 0 ? (
                     <div className="category-empty">{t('common.noClipsFound')}</div>
                 ) : (
-                    clips.map((clip) => (
-                        <ClipItem
-                            key={clip.name}
-                            clip={clip}
-                            isActive={currentClip?.name === clip.name}
-                            onClick={() => onSelectClip(clip)}
-                        />
-                    ))
+                    <div
+                        ref={listRef}
+                        className="category-clips-list"
+                        style={{ height: rowCount * CLIP_ROW_HEIGHT }}
+                    >
+                        {clips.slice(start, end).map((clip, i) => (
+                            <div
+                                key={getClipKey(clip)}
+                                className="clip-row"
+                                style={{ top: (start + i) * CLIP_ROW_HEIGHT }}
+                            >
+                                <ClipItem
+                                    clip={clip}
+                                    isActive={currentClip !== null && getClipKey(currentClip) === getClipKey(clip)}
+                                    onClick={() => onSelectClip(clip)}
+                                    issueCount={issueCounts?.[getClipKey(clip)]}
+                                    sourceLabel={clip.source ? sourceLabels?.[clip.source] : undefined}
+                                    note={getNote?.(clip)}
+                                    timeZone={getTimeZone?.(clip)}
+                                />
+                            </div>
+                        ))}
+                    </div>
                 )}
             </div>
         </div>
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { Camera } from '../../types';
+import { CAMERAS, CAMERA_LABELS, REASON_LABELS } from '../../utils/constants';
+import { EMPTY_FILTER, isFilterActive, type ClipFilter } from '../../utils/clip-filter';
+
+interface ClipFilterBarProps {
+    filter: ClipFilter;
+    onChange: (filter: ClipFilter) => void;
+    // Reasons present in the library
+    reasons: string[];
+    // User tags present in the library
+    tags: string[];
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+    return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+function parseMinutes(value: string): number | null {
+    const minutes = parseFloat(value);
+    return Number.isFinite(minutes) && minutes >= 0 ? minutes : null;
+}
+
+export function ClipFilterBar({ filter, onChange, reasons, tags }: ClipFilterBarProps) {
+    const { t } = useTranslation();
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    const update = (patch: Partial<ClipFilter>) => onChange({ ...filter, ...patch });
+
+    // Filters other than the always visible text search and star toggle
+    const hasAdvancedFilter = isFilterActive({ ...filter, text: '', starredOnly: false });
+
+    return (
+        <div className="clip-filter">
+            <div className="clip-filter-row">
+                <input
+                    type="search"
+                    className="clip-filter-search"
+                    value={filter.text}
+                    onChange={(e) => update({ text: e.target.value })}
+                    placeholder={t('filter.searchPlaceholder')}
+                />
+                <button
+                    className={`btn-icon small ${filter.starredOnly ? 'active' : ''}`}
+                    onClick={() => update({ starredOnly: !filter.starredOnly })}
+                    title={t('filter.starredOnly')}
+                >
+                    <svg viewBox="0 0 24 24" fill={filter.starredOnly ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth="2">
+                        <polygon points="12,2 15.09,8.26 22,9.27 17,14.14 18.18,21.02 12,17.77 5.82,21.02 7,14.14 2,9.27 8.91,8.26" />
+                    </svg>
+                </button>
+                <button
+                    className={`btn-icon small ${hasAdvancedFilter ? 'active' : ''}`}
+                    onClick={() => setIsExpanded(!isExpanded)}
+                    title={t('filter.moreFilters')}
+                >
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polygon points="22,3 2,3 10,12.46 10,19 14,21 14,12.46" />
+                    </svg>
+                </button>
+            </div>
+
+            {isExpanded && (
+                <div className="clip-filter-panel">
+                    <div className="clip-filter-group">
+                        <label>{t('filter.dateRange')}</label>
+                        <div className="clip-filter-range">
+                            <input
+                                type="date"
+                                value={filter.dateFrom}
+                                onChange={(e) => update({ dateFrom: e.target.value })}
+                            />
+                            <span>–</span>
+                            <input
+                                type="date"
+                                value={filter.dateTo}
+                                onChange={(e) => update({ dateTo: e.target.value })}
+                            />
+                        </div>
+                    </div>
+
+                    {reasons.length > 0 && (
+                        <div className="clip-filter-group">
+                            <label>{t('filter.reason')}</label>
+                            <div className="clip-filter-chips">
+                                {reasons.map((reason) => (
+                                    <button
+                                        key={reason}
+                                        className={`clip-filter-chip ${filter.reasons.includes(reason) ? 'active' : ''}`}
+                                        onClick={() => update({ reasons: toggle(filter.reasons, reason) })}
+                                    >
+                                        {REASON_LABELS[reason] ? t(REASON_LABELS[reason]) : reason}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {tags.length > 0 && (
+                        <div className="clip-filter-group">
+                            <label>{t('filter.tags')}</label>
+                            <div className="clip-filter-chips">
+                                {tags.map((tag) => (
+                                    <button
+                                        key={tag}
+                                        className={`clip-filter-chip ${filter.tags.includes(tag) ? 'active' : ''}`}
+                                        onClick={() => update({ tags: toggle(filter.tags, tag) })}
+                                    >
+                                        {tag}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="clip-filter-group">
+                        <label>{t('filter.cameras')}</label>
+                        <div className="clip-filter-chips">
+                            {CAMERAS.map((camera: Camera) => (
+                                <button
+                                    key={camera}
+                                    className={`clip-filter-chip ${filter.cameras.includes(camera) ? 'active' : ''}`}
+                                    onClick={() => update({ cameras: toggle(filter.cameras, camera) })}
+                                >
+                                    {t(CAMERA_LABELS[camera])}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="clip-filter-group">
+                        <label>{t('filter.duration')}</label>
+                        <div className="clip-filter-range">
+                            <input
+                                type="number"
+                                min="0"
+                                value={filter.minDuration ?? ''}
+                                onChange={(e) => update({ minDuration: parseMinutes(e.target.value) })}
+                                placeholder={t('filter.min')}
+                            />
+                            <span>–</span>
+                            <input
+                                type="number"
+                                min="0"
+                                value={filter.maxDuration ?? ''}
+                                onChange={(e) => update({ maxDuration: parseMinutes(e.target.value) })}
+                                placeholder={t('filter.max')}
+                            />
+                        </div>
+                    </div>
+
+                    {isFilterActive(filter) && (
+                        <button className="clip-filter-clear" onClick={() => onChange(EMPTY_FILTER)}>
+                            {t('filter.clear')}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,41 +1,44 @@
-import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { ClipInfo } from '../../types';
-import { formatClipDate } from '../../utils/time-utils';
+import { formatClipDate, parseClipTimestamp } from '../../utils/time-utils';
+import { getBrowserTimeZone, getZoneLabel } from '../../utils/timezone';
 import { REASON_LABELS } from '../../utils/constants';
-import { loadThumbnailUrl } from '../../utils/clip-scanner';
+import { useThumbnailUrl } from '../../hooks/useThumbnailUrl';
+import type { ClipNote } from '../../utils/clip-notes';
 
 interface ClipItemProps {
     clip: ClipInfo;
     isActive: boolean;
     onClick: () => void;
+    // Number of problems found by the integrity check
+    issueCount?: number;
+    // Library source label, shown when several sources are loaded
+    sourceLabel?: string;
+    // User star, tags and notes
+    note?: ClipNote;
+    // Library time zone the clip was recorded in
+    timeZone?: string;
 }
 
-export function ClipItem({ clip, isActive, onClick }: ClipItemProps) {
+export function ClipItem({ clip, isActive, onClick, issueCount = 0, sourceLabel, note, timeZone }: ClipItemProps) {
     const { t } = useTranslation();
-    const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
-
-    useEffect(() => {
-        if (clip.thumbnailHandle) {
-            loadThumbnailUrl(clip.thumbnailHandle).then(setThumbnailUrl);
-        }
-
-        return () => {
-            if (thumbnailUrl) {
-                URL.revokeObjectURL(thumbnailUrl);
-            }
-        };
-    }, [clip.thumbnailHandle]);
+    const thumbnailUrl = useThumbnailUrl(clip);
 
     const dateStr = formatClipDate(clip.name);
+    // Only label the zone when it isn't the viewer's own
+    const foreignZone = timeZone && timeZone !== getBrowserTimeZone() ? timeZone : null;
+    const startTime = foreignZone ? parseClipTimestamp(clip.name, foreignZone) : 0;
+    const zoneLabel = foreignZone && startTime ? getZoneLabel(startTime, foreignZone) : '';
     const reason = clip.event?.reason
         ? (REASON_LABELS[clip.event.reason] ? t(REASON_LABELS[clip.event.reason]) : clip.event.reason)
         : '';
+    const hasTags = (note?.tags.length ?? 0) > 0;
 
     return (
         <div
             className={`clip-item ${isActive ? 'active' : ''}`}
             onClick={onClick}
+            title={note?.notes || undefined}
         >
             {thumbnailUrl ? (
                 <img
@@ -47,9 +50,36 @@ export function ClipItem({ clip, isActive, onClick }: ClipItemProps) {
                 <div className="clip-item-thumb" />
             )}
             <div className="clip-item-info">
-                <div className="clip-item-date">{dateStr}</div>
-                {reason && <div className="clip-item-reason">{reason}</div>}
+                <div className="clip-item-date">
+                    {note?.starred && (
+                        <svg className="clip-item-star" viewBox="0 0 24 24" fill="currentColor">
+                            <polygon points="12,2 15.09,8.26 22,9.27 17,14.14 18.18,21.02 12,17.77 5.82,21.02 7,14.14 2,9.27 8.91,8.26" />
+                        </svg>
+                    )}
+                    {dateStr}
+                    {zoneLabel && <span className="clip-item-zone">{zoneLabel}</span>}
+                </div>
+                {(reason || sourceLabel || hasTags) && (
+                    <div className="clip-item-reason">
+                        {reason}
+                        {reason && sourceLabel && ' · '}
+                        {sourceLabel && <span className="clip-item-source">{sourceLabel}</span>}
+                        {note?.tags.map((tag) => (
+                            <span key={tag} className="clip-item-tag">{tag}</span>
+                        ))}
+                    </div>
+                )}
             </div>
+            {issueCount > 0 && (
+                <div className="clip-item-issues" title={t('sidebar.integrityIssues', { count: issueCount })}>
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z" />
+                        <line x1="12" y1="9" x2="12" y2="13" />
+                        <line x1="12" y1="17" x2="12.01" y2="17" />
+                    </svg>
+                    {issueCount}
+                </div>
+            )}
         </div>
     );
 }
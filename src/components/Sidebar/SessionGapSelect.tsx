@@ -0,0 +1,32 @@
+import { useTranslation } from 'react-i18next';
+
+interface SessionGapSelectProps {
+    seconds: number;
+    onChange: (seconds: number) => void;
+}
+
+// Segments start about a minute apart, so shorter gaps would split every drive
+const GAP_MINUTES = [2, 5, 10, 15, 30, 60];
+
+export function SessionGapSelect({ seconds, onChange }: SessionGapSelectProps) {
+    const { t } = useTranslation();
+    const options = GAP_MINUTES.map(minutes => minutes * 60);
+
+    return (
+        <label className="library-session-gap" title={t('sessionGap.description')}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10" />
+                <polyline points="12,6 12,12 16,14" />
+            </svg>
+            <select value={seconds} onChange={(e) => onChange(Number(e.target.value))}>
+                {/* Keep a stored gap selectable even if it is not one of the presets */}
+                {!options.includes(seconds) && (
+                    <option value={seconds}>{t('sessionGap.minutes', { count: Math.round(seconds / 60) })}</option>
+                )}
+                {options.map((option) => (
+                    <option key={option} value={option}>{t('sessionGap.minutes', { count: option / 60 })}</option>
+                ))}
+            </select>
+        </label>
+    );
+}
@@ -1,28 +1,93 @@
+import { useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { ClipInfo, ClipsByCategory } from '../../types';
 import { ClipCategorySection } from './ClipCategory';
+import { ClipFilterBar } from './ClipFilterBar';
+import { ClipCalendar } from './ClipCalendar';
+import { TimezoneSelect } from './TimezoneSelect';
+import { SessionGapSelect } from './SessionGapSelect';
 import { CLIP_CATEGORIES } from '../../utils/constants';
+import { EMPTY_FILTER, collectReasons, filterClips, isFilterActive, type ClipFilter } from '../../utils/clip-filter';
+import type { LibrarySource } from '../../utils/library-sources';
+import type { ClipNote } from '../../utils/clip-notes';
+import type { TimezoneSetting } from '../../utils/timezone';
 
 interface SidebarProps {
     clips: ClipsByCategory;
     currentClip: ClipInfo | null;
     onSelectClip: (clip: ClipInfo) => void;
     hasClips: boolean;
+    isRefreshing?: boolean;
+    isWatching?: boolean;
+    onRescan?: () => void;
+    onToggleWatch?: () => void;
+    onCheckIntegrity?: () => void;
+    onShowMap?: () => void;
+    issueCounts?: Record<string, number>;
+    sources?: LibrarySource[];
+    onAddFolder?: () => void;
+    onAddArchive?: () => void;
+    onRemoveSource?: (sourceId: string) => void;
+    getNote?: (clip: ClipInfo) => ClipNote | undefined;
+    // User tags in use, for the tag filter
+    tags?: string[];
+    timezone?: TimezoneSetting;
+    onTimezoneChange?: (setting: TimezoneSetting) => void;
+    sessionGapSeconds?: number;
+    onSessionGapChange?: (seconds: number) => void;
+    getTimeZone?: (clip: ClipInfo) => string;
     isOpen?: boolean;
     onClose?: () => void;
 }
 
-export function Sidebar({ clips, currentClip, onSelectClip, hasClips, isOpen, onClose }: SidebarProps) {
+export function Sidebar({
+    clips,
+    currentClip,
+    onSelectClip,
+    hasClips,
+    isRefreshing,
+    isWatching,
+    onRescan,
+    onToggleWatch,
+    onCheckIntegrity,
+    onShowMap,
+    issueCounts,
+    sources = [],
+    onAddFolder,
+    onAddArchive,
+    onRemoveSource,
+    getNote,
+    tags = [],
+    timezone,
+    onTimezoneChange,
+    sessionGapSeconds,
+    onSessionGapChange,
+    getTimeZone,
+    isOpen,
+    onClose,
+}: SidebarProps) {
     const { t } = useTranslation();
     // Determine collapsed state based on isOpen prop
     // open = expanded, closed = collapsed
     const isCollapsed = !isOpen;
 
+    const [filter, setFilter] = useState<ClipFilter>(EMPTY_FILTER);
+    const filteredClips = useMemo(() => filterClips(clips, filter, getNote), [clips, filter, getNote]);
+    const reasons = useMemo(() => collectReasons(clips), [clips]);
+    const filterActive = isFilterActive(filter);
+    const [viewMode, setViewMode] = useState<'list' | 'calendar'>('list');
+    const categoriesRef = useRef<HTMLDivElement>(null);
+
     // Find first category with clips for default expansion
     const firstCategoryWithClips = CLIP_CATEGORIES.find(
         (cat) => clips[cat].length > 0
     );
 
+    // Only label clips with their source when there is more than one
+    const sourceLabels = sources.length > 1
+        ? Object.fromEntries(sources.map(source => [source.id, source.label]))
+        : undefined;
+
     return (
         <>
             {/* Mobile backdrop */}
@@ -32,18 +97,148 @@ export function Sidebar({ clips, currentClip, onSelectClip, hasClips, isOpen, on
             <aside className={`sidebar ${isCollapsed ? 'collapsed' : ''} ${hasClips ? 'has-clips' : ''} ${isOpen ? 'open' : ''}`}>
                 <div className="sidebar-header">
                     <h2>{t('common.clips')}</h2>
+                    {hasClips && (
+                        <div className="sidebar-actions">
+                            {isRefreshing && (
+                                <div className="sidebar-refreshing" title={t('loading.refreshingClips')}>
+                                    <div className="loading-spinner small" />
+                                </div>
+                            )}
+                            {onToggleWatch && (
+                                <button
+                                    className={`btn-icon small ${isWatching ? 'active' : ''}`}
+                                    onClick={onToggleWatch}
+                                    title={isWatching ? t('sidebar.stopWatching') : t('sidebar.watch')}
+                                >
+                                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                        <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z" />
+                                        <circle cx="12" cy="12" r="3" />
+                                    </svg>
+                                </button>
+                            )}
+                            <button
+                                className={`btn-icon small ${viewMode === 'calendar' ? 'active' : ''}`}
+                                onClick={() => setViewMode(viewMode === 'calendar' ? 'list' : 'calendar')}
+                                title={viewMode === 'calendar' ? t('sidebar.listView') : t('sidebar.calendarView')}
+                            >
+                                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                    <rect x="3" y="4" width="18" height="18" rx="2" ry="2" />
+                                    <line x1="16" y1="2" x2="16" y2="6" />
+                                    <line x1="8" y1="2" x2="8" y2="6" />
+                                    <line x1="3" y1="10" x2="21" y2="10" />
+                                </svg>
+                            </button>
+                            <button
+                                className="btn-icon small"
+                                onClick={onShowMap}
+                                title={t('sidebar.showMap')}
+                            >
+                                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                    <polygon points="1,6 1,22 8,18 16,22 23,18 23,2 16,6 8,2" />
+                                    <line x1="8" y1="2" x2="8" y2="18" />
+                                    <line x1="16" y1="6" x2="16" y2="22" />
+                                </svg>
+                            </button>
+                            <button
+                                className="btn-icon small"
+                                onClick={onCheckIntegrity}
+                                title={t('sidebar.checkIntegrity')}
+                            >
+                                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                    <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+                                    <polyline points="9,12 11,14 15,10" />
+                                </svg>
+                            </button>
+                            {onRescan && (
+                                <button
+                                    className="btn-icon small"
+                                    onClick={onRescan}
+                                    disabled={isRefreshing}
+                                    title={t('sidebar.rescan')}
+                                >
+                                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                        <polyline points="23,4 23,10 17,10" />
+                                        <path d="M20.49 15a9 9 0 11-2.12-9.36L23 10" />
+                                    </svg>
+                                </button>
+                            )}
+                        </div>
+                    )}
                     {/* Internal toggle removed in favor of Header toggle */}
                 </div>
 
-                <div className="clip-categories">
-                    {CLIP_CATEGORIES.map((category) => (
+                {sources.length > 0 && (
+                    <div className="library-sources">
+                        {sources.map((source) => (
+                            <span key={source.id} className="library-source" title={source.root.name}>
+                                {source.label}
+                                {sources.length > 1 && (
+                                    <button
+                                        className="library-source-remove"
+                                        onClick={() => onRemoveSource?.(source.id)}
+                                        title={t('sidebar.removeSource', { name: source.label })}
+                                    >
+                                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                            <path d="M18 6L6 18M6 6l12 12" />
+                                        </svg>
+                                    </button>
+                                )}
+                            </span>
+                        ))}
+                        <button className="btn-icon small" onClick={onAddFolder} title={t('sidebar.addFolder')}>
+                            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                <path d="M22 19a2 2 0 01-2 2H4a2 2 0 01-2-2V5a2 2 0 012-2h5l2 3h9a2 2 0 012 2z" />
+                                <line x1="12" y1="11" x2="12" y2="17" />
+                                <line x1="9" y1="14" x2="15" y2="14" />
+                            </svg>
+                        </button>
+                        <button className="btn-icon small" onClick={onAddArchive} title={t('sidebar.addArchive')}>
+                            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                <path d="M21 8v13H3V8" />
+                                <rect x="1" y="3" width="22" height="5" />
+                                <line x1="10" y1="12" x2="14" y2="12" />
+                            </svg>
+                        </button>
+                    </div>
+                )}
+
+                {hasClips && timezone && onTimezoneChange && (
+                    <TimezoneSelect setting={timezone} onChange={onTimezoneChange} />
+                )}
+
+                {clips.RecentClips.length > 0 && sessionGapSeconds !== undefined && onSessionGapChange && (
+                    <SessionGapSelect seconds={sessionGapSeconds} onChange={onSessionGapChange} />
+                )}
+
+                {hasClips && (
+                    <ClipFilterBar filter={filter} onChange={setFilter} reasons={reasons} tags={tags} />
+                )}
+
+                <div className="clip-categories" ref={categoriesRef}>
+                    {hasClips && viewMode === 'calendar' ? (
+                        <ClipCalendar
+                            clips={filteredClips}
+                            currentClip={currentClip}
+                            onSelectClip={onSelectClip}
+                            issueCounts={issueCounts}
+                            sourceLabels={sourceLabels}
+                            getNote={getNote}
+                            getTimeZone={getTimeZone}
+                        />
+                    ) : CLIP_CATEGORIES.map((category) => (
                         <ClipCategorySection
                             key={category}
                             category={category}
-                            clips={clips[category]}
+                            clips={filteredClips[category]}
+                            totalCount={filterActive ? clips[category].length : undefined}
                             currentClip={currentClip}
                             onSelectClip={onSelectClip}
                             defaultExpanded={category === firstCategoryWithClips}
+                            issueCounts={issueCounts}
+                            sourceLabels={sourceLabels}
+                            getNote={getNote}
+                            getTimeZone={getTimeZone}
+                            scrollContainerRef={categoriesRef}
                         />
                     ))}
                 </div>
@@ -0,0 +1,79 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { getBrowserTimeZone, listTimeZones, type TimezoneSetting } from '../../utils/timezone';
+
+interface TimezoneSelectProps {
+    setting: TimezoneSetting;
+    onChange: (setting: TimezoneSetting) => void;
+}
+
+// Option values for the non-fixed modes; zone names never start with ':'
+const BROWSER_OPTION = ':browser';
+const AUTO_OPTION = ':auto';
+
+export function TimezoneSelect({ setting, onChange }: TimezoneSelectProps) {
+    const { t } = useTranslation();
+    const zones = useMemo(() => listTimeZones(), []);
+
+    const value = setting.mode === 'fixed' ? setting.zone
+        : setting.mode === 'auto' ? AUTO_OPTION
+            : BROWSER_OPTION;
+
+    const handleChange = (next: string) => {
+        if (next === BROWSER_OPTION) {
+            onChange({ mode: 'browser', zone: '' });
+        } else if (next === AUTO_OPTION) {
+            onChange({ mode: 'auto', zone: '' });
+        } else {
+            onChange({ mode: 'fixed', zone: next });
+        }
+    };
+
+    const zoneOptions = (
+        <>
+            {/* Keep a saved zone selectable even if this browser doesn't list it */}
+            {setting.zone && !zones.includes(setting.zone) && (
+                <option value={setting.zone}>{setting.zone}</option>
+            )}
+            {zones.map((zone) => (
+                <option key={zone} value={zone}>{zone}</option>
+            ))}
+        </>
+    );
+
+    return (
+        <>
+            <label className="library-timezone" title={t('timezone.description')}>
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <circle cx="12" cy="12" r="10" />
+                    <line x1="2" y1="12" x2="22" y2="12" />
+                    <path d="M12 2a15.3 15.3 0 014 10 15.3 15.3 0 01-4 10 15.3 15.3 0 01-4-10 15.3 15.3 0 014-10z" />
+                </svg>
+                <select value={value} onChange={(e) => handleChange(e.target.value)}>
+                    <option value={BROWSER_OPTION}>{t('timezone.browser', { zone: getBrowserTimeZone() })}</option>
+                    <option value={AUTO_OPTION}>{t('timezone.auto')}</option>
+                    <optgroup label={t('timezone.fixed')}>
+                        {zoneOptions}
+                    </optgroup>
+                </select>
+            </label>
+
+            {/* Auto mode asks which zone to use where the GPS position gives none */}
+            {setting.mode === 'auto' && (
+                <label className="library-timezone" title={t('timezone.fallbackDescription')}>
+                    <span className="library-timezone-caption">{t('timezone.fallback')}</span>
+                    <select
+                        value={setting.zone || BROWSER_OPTION}
+                        onChange={(e) => onChange({
+                            mode: 'auto',
+                            zone: e.target.value === BROWSER_OPTION ? '' : e.target.value,
+                        })}
+                    >
+                        <option value={BROWSER_OPTION}>{t('timezone.browser', { zone: getBrowserTimeZone() })}</option>
+                        {zoneOptions}
+                    </select>
+                </label>
+            )}
+        </>
+    );
+}
@@ -1,10 +1,21 @@
 import { useTranslation } from 'react-i18next';
+import type { RecentFolder } from '../utils/recent-folders';
 
 interface WelcomeScreenProps {
     onSelectFolder: () => void;
+    onSelectArchive: () => void;
+    recentFolders: RecentFolder[];
+    onOpenRecentFolder: (folder: RecentFolder) => void;
+    onForgetRecentFolder: (folder: RecentFolder) => void;
 }
 
-export function WelcomeScreen({ onSelectFolder }: WelcomeScreenProps) {
+export function WelcomeScreen({
+    onSelectFolder,
+    onSelectArchive,
+    recentFolders,
+    onOpenRecentFolder,
+    onForgetRecentFolder,
+}: WelcomeScreenProps) {
     const { t } = useTranslation();
 
     return (
@@ -23,7 +34,47 @@ export function WelcomeScreen({ onSelectFolder }: WelcomeScreenProps) {
                     </svg>
                     {t('welcome.selectFolder')}
                 </button>
+                <button className="btn-secondary" onClick={onSelectArchive}>
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M21 8v13H3V8" />
+                        <rect x="1" y="3" width="22" height="5" />
+                        <line x1="10" y1="12" x2="14" y2="12" />
+                    </svg>
+                    {t('welcome.openArchive')}
+                </button>
                 <p className="hint">{t('welcome.hint')}</p>
+
+                {recentFolders.length > 0 && (
+                    <div className="recent-folders">
+                        <div className="recent-folders-title">{t('welcome.recentFolders')}</div>
+                        {recentFolders.map((folder) => (
+                            <div key={folder.id} className="recent-folder">
+                                <button
+                                    className="recent-folder-open"
+                                    onClick={() => onOpenRecentFolder(folder)}
+                                    title={t('welcome.reopenFolder', { name: folder.name })}
+                                >
+                                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                        <path d="M22 19a2 2 0 01-2 2H4a2 2 0 01-2-2V5a2 2 0 012-2h5l2 3h9a2 2 0 012 2z" />
+                                    </svg>
+                                    <span className="recent-folder-name">{folder.name}</span>
+                                    <span className="recent-folder-date">
+                                        {new Date(folder.lastOpened).toLocaleString()}
+                                    </span>
+                                </button>
+                                <button
+                                    className="toast-dismiss"
+                                    onClick={() => onForgetRecentFolder(folder)}
+                                    title={t('welcome.forgetFolder')}
+                                >
+                                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                        <path d="M18 6L6 18M6 6l12 12" />
+                                    </svg>
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -1,16 +1,36 @@
-import { useState, useCallback, useRef, type ChangeEvent } from 'react';
+import { useState, useCallback, useEffect, useRef, type ChangeEvent } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { ClipInfo, ClipsByCategory } from '../types';
-import { scanClips } from '../utils/clip-scanner';
+import { scanClips, type SkippedFolder } from '../utils/clip-scanner';
 import {
     NativeFileSystemDirectoryEntry,
     createVirtualFileSystemFromFiles,
+    createZipFileSystem,
+    createFileSystemFromDataTransfer,
     type FileProcessingProgress,
 } from '../utils/file-system-adapters';
 import type { IFileSystemDirectoryEntry } from '../types/file-system';
+import { type ClipIndex, clipsFromIndex, loadClipIndex } from '../utils/clip-index';
+import { findClip, getClipKey, mergeRescannedClips } from '../utils/clip-diff';
+import { resplitSessions } from '../utils/clip-sessions';
+import { RECENT_SESSION_GAP_SECONDS } from '../utils/constants';
+import { recoverTruncatedSegments } from '../utils/mp4-recovery';
+import {
+    addRecentFolder,
+    getRecentFolders,
+    removeRecentFolder,
+    requestReadPermission,
+    type RecentFolder,
+} from '../utils/recent-folders';
+import {
+    createSourceLabel,
+    mergeSourceClips,
+    tagClipsWithSource,
+    type LibrarySource,
+} from '../utils/library-sources';
 
 export interface LoadingProgress {
-    phase: 'filtering' | 'building' | 'scanning';
+    phase: 'filtering' | 'building' | 'scanning' | 'recovering';
     processed: number;
     total: number;
     message: string;
@@ -20,21 +40,64 @@ interface UseClipManagerReturn {
     clips: ClipsByCategory;
     currentClip: ClipInfo | null;
     isLoading: boolean;
+    isRefreshing: boolean;
     loadingProgress: LoadingProgress | null;
     error: string | null;
     warning: string | null;
     dismissWarning: () => void;
     selectFolder: () => Promise<void>;
+    selectArchive: () => void;
     selectClip: (clip: ClipInfo) => void;
+    recoverClip: (clip: ClipInfo) => Promise<void>;
     hasClips: boolean;
     fileInputRef: React.RefObject<HTMLInputElement>;
     handleFileChange: (event: ChangeEvent<HTMLInputElement>) => Promise<void>;
+    archiveInputRef: React.RefObject<HTMLInputElement>;
+    handleArchiveChange: (event: ChangeEvent<HTMLInputElement>) => Promise<void>;
+    handleDrop: (dataTransfer: DataTransfer) => Promise<void>;
+    sources: LibrarySource[];
+    addFolder: () => Promise<void>;
+    addArchive: () => void;
+    removeSource: (sourceId: string) => void;
+    recentFolders: RecentFolder[];
+    openRecentFolder: (folder: RecentFolder) => Promise<void>;
+    forgetRecentFolder: (folder: RecentFolder) => Promise<void>;
+    rescan: () => Promise<void>;
+    // Whether every source is a live folder that can show new files
+    canRescan: boolean;
+    isWatching: boolean;
+    setWatching: (watching: boolean) => void;
+    sessionGapSeconds: number;
+    setSessionGapSeconds: (seconds: number) => void;
+}
+
+/**
+ * Only folders opened through the File System Access API see later changes;
+ * file input snapshots, archives and dropped legacy trees are fixed at load time
+ */
+function isLiveSource(source: LibrarySource): boolean {
+    return source.root instanceof NativeFileSystemDirectoryEntry;
+}
+
+// Polling interval for watch mode (ms)
+const WATCH_INTERVAL_MS = 30_000;
+
+// Skipped folders named in the warning; the rest are only logged
+const SKIPPED_FOLDERS_SHOWN = 3;
+
+// localStorage key for the gap that splits RecentClips into drive sessions
+const SESSION_GAP_KEY = 'anicam:sessionGapSeconds';
+
+function loadSessionGap(): number {
+    const seconds = Number(localStorage.getItem(SESSION_GAP_KEY));
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : RECENT_SESSION_GAP_SECONDS;
 }
 
 const EMPTY_CLIPS: ClipsByCategory = {
     SavedClips: [],
     SentryClips: [],
     RecentClips: [],
+    TeslaTrackMode: [],
 };
 
 export function useClipManager(): UseClipManagerReturn {
@@ -45,11 +108,65 @@ export function useClipManager(): UseClipManagerReturn {
     const [loadingProgress, setLoadingProgress] = useState<LoadingProgress | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [warning, setWarning] = useState<string | null>(null);
+    const [recentFolders, setRecentFolders] = useState<RecentFolder[]>([]);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [isWatching, setWatching] = useState(false);
+    const [sessionGapSeconds, setSessionGap] = useState(loadSessionGap);
+    // Read by scans, which may outlive the render that started them
+    const sessionGapRef = useRef(sessionGapSeconds);
+    const loadIdRef = useRef(0);
+
+    // Library roots and their scanned clips, kept for rescans
+    const [sources, setSources] = useState<LibrarySource[]>([]);
+    const sourcesRef = useRef<LibrarySource[]>([]);
+    const sourceClipsRef = useRef(new Map<string, ClipsByCategory>());
+    // Whether the next folder or archive picked through a file input is added to the library
+    const appendNextRef = useRef(false);
+    const isRescanningRef = useRef(false);
 
     // Fallback file input ref
     const fileInputRef = useRef<HTMLInputElement>(null);
+    // Zip archive input ref
+    const archiveInputRef = useRef<HTMLInputElement>(null);
+
+    // Load persisted folders on startup
+    useEffect(() => {
+        getRecentFolders()
+            .then(setRecentFolders)
+            .catch((err) => console.warn('Recent folders unavailable:', err));
+    }, []);
+
+    const updateSources = useCallback((next: LibrarySource[]) => {
+        sourcesRef.current = next;
+        setSources(next);
+    }, []);
+
+    /**
+     * Rebuild the merged library from the clips of every source
+     */
+    const rebuildLibrary = useCallback(() => {
+        const result = mergeSourceClips(sourcesRef.current, sourceClipsRef.current);
+        setClips(result.clips);
+        return result;
+    }, []);
+
+    /**
+     * Tag scanned clips with their source, re-splitting RecentClips if the
+     * session gap changed while the scan was running
+     */
+    const prepareSourceClips = useCallback((scanned: ClipsByCategory, sourceId: string, gapSeconds: number) => {
+        const tagged = tagClipsWithSource(scanned, sourceId);
+        if (gapSeconds === sessionGapRef.current) return tagged;
+        return { ...tagged, RecentClips: resplitSessions(tagged.RecentClips, sessionGapRef.current) };
+    }, []);
+
+    /**
+     * Load a root, either replacing the library or adding it as another source
+     */
+    const loadClipsFromHandle = useCallback(async (rootHandle: IFileSystemDirectoryEntry, append = false) => {
+        // Ignore results of a background refresh superseded by a newer load
+        const loadId = append ? loadIdRef.current : ++loadIdRef.current;
 
-    const loadClipsFromHandle = useCallback(async (rootHandle: IFileSystemDirectoryEntry) => {
         try {
             setIsLoading(true);
             setLoadingProgress({
@@ -59,26 +176,95 @@ export function useClipManager(): UseClipManagerReturn {
                 message: t('loading.scanningClips'),
             });
             setError(null);
-            setWarning(null);
+            if (!append) {
+                setWarning(null);
+                setCurrentClip(null);
+                sourceClipsRef.current = new Map();
+                updateSources([]);
+            }
 
             // Check if user selected a category folder directly
             if (['SavedClips', 'SentryClips', 'RecentClips'].includes(rootHandle.name)) {
                 setWarning(t('warnings.singleCategoryFolder'));
             }
 
-            const scannedClips = await scanClips(rootHandle);
-            setClips(scannedClips);
-            setCurrentClip(null);
+            // Native folders are remembered and get a persistent clip index
+            let index: ClipIndex | undefined;
+            let indexKey: string | null = null;
+            if (rootHandle instanceof NativeFileSystemDirectoryEntry) {
+                try {
+                    const folders = await addRecentFolder(rootHandle.nativeHandle);
+                    setRecentFolders(folders);
+                    indexKey = folders[0].id;
+                    index = await loadClipIndex(indexKey);
+                } catch (err) {
+                    console.warn('Clip index unavailable:', err);
+                }
+            }
+
+            if (indexKey && sourcesRef.current.some(source => source.indexKey === indexKey)) {
+                setWarning(t('warnings.sourceAlreadyAdded', { name: rootHandle.name }));
+                return;
+            }
+
+            const source: LibrarySource = {
+                id: indexKey ?? crypto.randomUUID(),
+                label: createSourceLabel(rootHandle.name, sourcesRef.current),
+                root: rootHandle,
+                indexKey,
+            };
+            updateSources([...sourcesRef.current, source]);
+
+            // Show cached clips right away, then rescan changed folders in the background
+            const sessionGap = sessionGapRef.current;
+            const cachedClips = index ? clipsFromIndex(index, rootHandle, sessionGap) : null;
+            if (cachedClips) {
+                sourceClipsRef.current.set(source.id, tagClipsWithSource(cachedClips, source.id));
+                rebuildLibrary();
+                setIsLoading(false);
+                setLoadingProgress(null);
+                setIsRefreshing(true);
+            }
+
+            const skippedFolders: SkippedFolder[] = [];
+            const scannedClips = await scanClips(rootHandle, {
+                index,
+                sessionGapSeconds: sessionGap,
+                onSkippedFolder: (folder) => skippedFolders.push(folder),
+            });
+            // Superseded by a newer load, or the source was removed meanwhile
+            if (loadId !== loadIdRef.current || !sourcesRef.current.includes(source)) return;
+
+            sourceClipsRef.current.set(source.id, prepareSourceClips(scannedClips, source.id, sessionGap));
+            const { duplicates } = rebuildLibrary();
+            if (append && duplicates > 0) {
+                setWarning(t('warnings.duplicateClips', { count: duplicates }));
+            } else if (skippedFolders.length > 0) {
+                const paths = skippedFolders.map(folder => [rootHandle.name, ...folder.path].join('/'));
+                console.info('Skipped folders:', skippedFolders);
+                setWarning(t('warnings.skippedFolders', {
+                    count: skippedFolders.length,
+                    folders: paths.slice(0, SKIPPED_FOLDERS_SHOWN).join(', ')
+                        + (paths.length > SKIPPED_FOLDERS_SHOWN ? ', …' : ''),
+                }));
+            }
+
+            index?.save().catch((err) => console.warn('Could not save clip index:', err));
         } catch (err) {
             console.error('Error scanning folder:', err);
-            setError(t('errors.folderAccess', { error: (err as Error).message }));
+            if (loadId === loadIdRef.current) {
+                setError(t('errors.folderAccess', { error: (err as Error).message }));
+            }
         } finally {
-            setIsLoading(false);
-            setLoadingProgress(null);
+            if (loadId === loadIdRef.current) {
+                setIsLoading(false);
+                setLoadingProgress(null);
+                setIsRefreshing(false);
+            }
         }
-    }, [t]);
+    }, [prepareSourceClips, rebuildLibrary, updateSources, t]);
 
-    const selectFolder = useCallback(async () => {
+    const pickFolder = useCallback(async (append: boolean) => {
         // Check for File System Access API support
         if ('showDirectoryPicker' in window) {
             try {
@@ -87,7 +273,7 @@ export function useClipManager(): UseClipManagerReturn {
                     mode: 'read',
                 });
                 const rootHandle = new NativeFileSystemDirectoryEntry(handle);
-                await loadClipsFromHandle(rootHandle);
+                await loadClipsFromHandle(rootHandle, append);
             } catch (err) {
                 if ((err as Error).name !== 'AbortError') {
                     console.error('Error selecting folder:', err);
@@ -96,36 +282,51 @@ export function useClipManager(): UseClipManagerReturn {
             }
         } else {
             // Fallback: Trigger hidden file input
+            appendNextRef.current = append;
             fileInputRef.current?.click();
         }
     }, [loadClipsFromHandle, t]);
 
+    const selectFolder = useCallback(() => pickFolder(false), [pickFolder]);
+
+    const addFolder = useCallback(() => pickFolder(true), [pickFolder]);
+
+    // Progress callback for file processing
+    const reportFileProgress = useCallback((progress: FileProcessingProgress) => {
+        const percent = progress.total > 0
+            ? Math.round((progress.processed / progress.total) * 100)
+            : 0;
+
+        let message: string;
+        if (progress.phase === 'building') {
+            message = t('loading.buildingStructure', { percent });
+        } else if (progress.total === 0) {
+            // Total unknown while walking dropped folders
+            message = t('loading.collectingFiles', { count: progress.processed });
+        } else {
+            message = t('loading.filteringFiles', { percent });
+        }
+
+        setLoadingProgress({
+            phase: progress.phase,
+            processed: progress.processed,
+            total: progress.total,
+            message,
+        });
+    }, [t]);
+
     const handleFileChange = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
         const files = event.target.files;
+        const append = appendNextRef.current;
+        appendNextRef.current = false;
         if (!files || files.length === 0) return;
 
         try {
             setIsLoading(true);
             setError(null);
 
-            // Progress callback for file processing
-            const onProgress = (progress: FileProcessingProgress) => {
-                const percent = progress.total > 0
-                    ? Math.round((progress.processed / progress.total) * 100)
-                    : 0;
-
-                setLoadingProgress({
-                    phase: progress.phase,
-                    processed: progress.processed,
-                    total: progress.total,
-                    message: progress.phase === 'filtering'
-                        ? t('loading.filteringFiles', { percent })
-                        : t('loading.buildingStructure', { percent }),
-                });
-            };
-
-            const rootHandle = await createVirtualFileSystemFromFiles(files, onProgress);
-            await loadClipsFromHandle(rootHandle);
+            const rootHandle = await createVirtualFileSystemFromFiles(files, reportFileProgress);
+            await loadClipsFromHandle(rootHandle, append);
         } catch (err) {
             console.error('Error reading files:', err);
             setError(t('errors.folderAccess', { error: (err as Error).message }));
@@ -135,16 +336,232 @@ export function useClipManager(): UseClipManagerReturn {
             // Reset input so same folder can be selected again if needed
             event.target.value = '';
         }
+    }, [loadClipsFromHandle, reportFileProgress, t]);
+
+    const selectArchive = useCallback(() => {
+        appendNextRef.current = false;
+        archiveInputRef.current?.click();
+    }, []);
+
+    const addArchive = useCallback(() => {
+        appendNextRef.current = true;
+        archiveInputRef.current?.click();
+    }, []);
+
+    const handleArchiveChange = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+        const archive = event.target.files?.[0];
+        const append = appendNextRef.current;
+        appendNextRef.current = false;
+        if (!archive) return;
+
+        try {
+            setIsLoading(true);
+            setError(null);
+            setLoadingProgress({
+                phase: 'building',
+                processed: 0,
+                total: 0,
+                message: t('loading.readingArchive'),
+            });
+
+            const rootHandle = await createZipFileSystem(archive);
+            await loadClipsFromHandle(rootHandle, append);
+        } catch (err) {
+            console.error('Error reading archive:', err);
+            setError(t('errors.archiveAccess', { error: (err as Error).message }));
+            setIsLoading(false);
+            setLoadingProgress(null);
+        } finally {
+            // Reset input so same archive can be selected again if needed
+            event.target.value = '';
+        }
+    }, [loadClipsFromHandle, t]);
+
+    const handleDrop = useCallback(async (dataTransfer: DataTransfer) => {
+        try {
+            setIsLoading(true);
+            setError(null);
+
+            // Must run before any await: dropped items are only readable during the event
+            const rootHandles = await createFileSystemFromDataTransfer(dataTransfer, reportFileProgress);
+            // The first root replaces the library, the others are added to it
+            for (const [i, rootHandle] of rootHandles.entries()) {
+                await loadClipsFromHandle(rootHandle, i > 0);
+            }
+        } catch (err) {
+            console.error('Error reading dropped items:', err);
+            setError(t('errors.folderAccess', { error: (err as Error).message }));
+            setIsLoading(false);
+            setLoadingProgress(null);
+        }
+    }, [loadClipsFromHandle, reportFileProgress, t]);
+
+    const openRecentFolder = useCallback(async (folder: RecentFolder) => {
+        try {
+            if (!await requestReadPermission(folder.handle)) {
+                setError(t('errors.permissionDenied', { name: folder.name }));
+                return;
+            }
+            await loadClipsFromHandle(new NativeFileSystemDirectoryEntry(folder.handle));
+        } catch (err) {
+            console.error('Error reopening folder:', err);
+            setError(t('errors.folderAccess', { error: (err as Error).message }));
+        }
     }, [loadClipsFromHandle, t]);
 
+    const forgetRecentFolder = useCallback(async (folder: RecentFolder) => {
+        setRecentFolders(prev => prev.filter(f => f.id !== folder.id));
+        try {
+            await removeRecentFolder(folder.id);
+        } catch (err) {
+            console.warn('Could not forget folder:', err);
+        }
+    }, []);
+
+    /**
+     * Rescan every source and merge changes without resetting the current clip
+     */
+    const rescan = useCallback(async () => {
+        if (sourcesRef.current.length === 0 || isRescanningRef.current) return;
+        if (!sourcesRef.current.every(isLiveSource)) return;
+
+        const loadId = loadIdRef.current;
+        isRescanningRef.current = true;
+        setIsRefreshing(true);
+
+        try {
+            let changed = false;
+            for (const source of sourcesRef.current) {
+                const index = source.indexKey ? await loadClipIndex(source.indexKey) : undefined;
+                const sessionGap = sessionGapRef.current;
+                const scannedClips = await scanClips(source.root, { index, sessionGapSeconds: sessionGap });
+                const freshClips = prepareSourceClips(scannedClips, source.id, sessionGap);
+                if (loadId !== loadIdRef.current) return;
+
+                const previousClips = sourceClipsRef.current.get(source.id);
+                if (!previousClips) continue;
+
+                const { clips: merged, added, removed, updated } = mergeRescannedClips(previousClips, freshClips);
+                if (added + removed + updated > 0) {
+                    sourceClipsRef.current.set(source.id, merged);
+                    changed = true;
+                }
+
+                index?.save().catch((err) => console.warn('Could not save clip index:', err));
+            }
+
+            if (changed) {
+                const { clips: merged } = rebuildLibrary();
+                // Keep playing a clip that disappeared; switch to the refreshed object otherwise
+                setCurrentClip(prev => (prev ? findClip(merged, prev) ?? prev : null));
+            }
+        } catch (err) {
+            console.warn('Rescan failed:', err);
+        } finally {
+            isRescanningRef.current = false;
+            if (loadId === loadIdRef.current) {
+                setIsRefreshing(false);
+            }
+        }
+    }, [prepareSourceClips, rebuildLibrary]);
+
+    /**
+     * Change the RecentClips session gap and re-split the loaded sessions in place
+     */
+    const setSessionGapSeconds = useCallback((seconds: number) => {
+        sessionGapRef.current = seconds;
+        setSessionGap(seconds);
+        localStorage.setItem(SESSION_GAP_KEY, String(seconds));
+
+        for (const [sourceId, sourceClips] of sourceClipsRef.current) {
+            sourceClipsRef.current.set(sourceId, {
+                ...sourceClips,
+                RecentClips: resplitSessions(sourceClips.RecentClips, seconds),
+            });
+        }
+        const { clips: merged } = rebuildLibrary();
+        // A session merged into an earlier one keeps playing under its old object
+        setCurrentClip(prev => (prev ? findClip(merged, prev) ?? prev : null));
+    }, [rebuildLibrary]);
+
+    /**
+     * Remove one source from the library
+     */
+    const removeSource = useCallback((sourceId: string) => {
+        updateSources(sourcesRef.current.filter(source => source.id !== sourceId));
+        sourceClipsRef.current.delete(sourceId);
+        rebuildLibrary();
+        setCurrentClip(prev => (prev?.source === sourceId ? null : prev));
+    }, [rebuildLibrary, updateSources]);
+
+    const canRescan = sources.length > 0 && sources.every(isLiveSource);
+
+    // Stop watching once a snapshot source joins the library
+    useEffect(() => {
+        if (!canRescan) setWatching(false);
+    }, [canRescan]);
+
+    // Poll for changes while watching
+    useEffect(() => {
+        if (!isWatching || !canRescan) return;
+        const intervalId = window.setInterval(rescan, WATCH_INTERVAL_MS);
+        return () => window.clearInterval(intervalId);
+    }, [isWatching, canRescan, rescan]);
+
     const selectClip = useCallback((clip: ClipInfo) => {
         setCurrentClip(clip);
     }, []);
 
+    /**
+     * Rebuild truncated recordings of a clip in memory and open the recovered version
+     */
+    const recoverClip = useCallback(async (clip: ClipInfo) => {
+        setIsLoading(true);
+        setLoadingProgress({
+            phase: 'recovering',
+            processed: 0,
+            total: 0,
+            message: t('loading.recoveringClip'),
+        });
+
+        try {
+            const result = await recoverTruncatedSegments(clip);
+            const sourceClips = clip.source ? sourceClipsRef.current.get(clip.source) : undefined;
+            if (result.recovered > 0 && sourceClips) {
+                const key = getClipKey(clip);
+                sourceClipsRef.current.set(clip.source!, {
+                    ...sourceClips,
+                    [clip.category]: sourceClips[clip.category].map(candidate =>
+                        getClipKey(candidate) === key ? result.clip : candidate
+                    ),
+                });
+                rebuildLibrary();
+            }
+            setCurrentClip(result.clip);
+
+            if (result.failed.length > 0) {
+                console.warn('Recovery failed for:', result.failed);
+                setWarning(t('warnings.recoveryIncomplete', {
+                    recovered: result.recovered,
+                    failed: result.failed.length,
+                }));
+            } else if (result.recovered === 0) {
+                setWarning(t('warnings.nothingToRecover'));
+            }
+        } catch (err) {
+            console.error('Error recovering clip:', err);
+            setError(t('errors.recoveryFailed', { error: (err as Error).message }));
+        } finally {
+            setIsLoading(false);
+            setLoadingProgress(null);
+        }
+    }, [rebuildLibrary, t]);
+
     const hasClips =
         clips.SavedClips.length > 0 ||
         clips.SentryClips.length > 0 ||
-        clips.RecentClips.length > 0;
+        clips.RecentClips.length > 0 ||
+        clips.TeslaTrackMode.length > 0;
 
     const dismissWarning = useCallback(() => {
         setWarning(null);
@@ -154,14 +571,33 @@ export function useClipManager(): UseClipManagerReturn {
         clips,
         currentClip,
         isLoading,
+        isRefreshing,
         loadingProgress,
         error,
         warning,
         selectFolder,
+        selectArchive,
         selectClip,
+        recoverClip,
         dismissWarning,
         hasClips,
         fileInputRef,
         handleFileChange,
+        archiveInputRef,
+        handleArchiveChange,
+        handleDrop,
+        sources,
+        addFolder,
+        addArchive,
+        removeSource,
+        recentFolders,
+        openRecentFolder,
+        forgetRecentFolder,
+        rescan,
+        canRescan,
+        isWatching,
+        setWatching,
+        sessionGapSeconds,
+        setSessionGapSeconds,
     };
 }
@@ -0,0 +1,79 @@
+/**
+ * useClipNotes Hook
+ *
+ * Loads the persisted clip notes once and keeps them in memory for lookups
+ * from the sidebar, filters and event bar.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ClipInfo, ClipsByCategory } from '../types';
+import type { LibrarySource } from '../utils/library-sources';
+import { getClipKey } from '../utils/clip-diff';
+import {
+    getClipNoteKey,
+    getClipNoteSpan,
+    loadClipNotes,
+    matchSessionNotes,
+    normalizeTag,
+    saveClipNote,
+    type ClipNote,
+    type ClipNoteChanges,
+} from '../utils/clip-notes';
+
+export interface UseClipNotesReturn {
+    getNote: (clip: ClipInfo) => ClipNote | undefined;
+    updateNote: (clip: ClipInfo, changes: ClipNoteChanges) => void;
+    // Every tag in use, sorted
+    allTags: string[];
+}
+
+export function useClipNotes(sources: LibrarySource[], clips: ClipsByCategory): UseClipNotesReturn {
+    const [notes, setNotes] = useState<Map<string, ClipNote>>(new Map());
+
+    useEffect(() => {
+        loadClipNotes()
+            .then(stored => setNotes(new Map(stored.map(note => [note.key, note]))))
+            .catch(err => console.warn('Failed to load clip notes:', err));
+    }, []);
+
+    const sessionNotes = useMemo(
+        () => matchSessionNotes(notes, clips.RecentClips, sources),
+        [notes, clips.RecentClips, sources]
+    );
+
+    const getNote = useCallback(
+        (clip: ClipInfo) => clip.category === 'RecentClips'
+            ? sessionNotes.get(getClipKey(clip))
+            : notes.get(getClipNoteKey(clip, sources)),
+        [notes, sessionNotes, sources]
+    );
+
+    const updateNote = useCallback((clip: ClipInfo, changes: ClipNoteChanges) => {
+        // A note found on a renamed session keeps the span it was written for
+        const current = getNote(clip) ?? {
+            key: getClipNoteKey(clip, sources),
+            starred: false,
+            tags: [],
+            notes: '',
+            updatedAt: 0,
+            span: getClipNoteSpan(clip),
+        };
+        const note: ClipNote = { ...current, ...changes, updatedAt: Date.now() };
+        if (changes.tags) {
+            note.tags = Array.from(new Set(changes.tags.map(normalizeTag).filter(Boolean)));
+        }
+
+        setNotes(prev => new Map(prev).set(note.key, note));
+        saveClipNote(note).catch(err => console.warn('Failed to save clip note:', err));
+    }, [getNote, sources]);
+
+    const allTags = useMemo(() => {
+        const tags = new Set<string>();
+        for (const note of notes.values()) {
+            note.tags.forEach(tag => tags.add(tag));
+        }
+        return Array.from(tags).sort();
+    }, [notes]);
+
+    return { getNote, updateNote, allTags };
+}
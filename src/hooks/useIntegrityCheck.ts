@@ -0,0 +1,85 @@
+/**
+ * useIntegrityCheck Hook
+ *
+ * Runs the drive integrity scan over the loaded library and keeps the
+ * latest report, with per-clip issue counts for the sidebar.
+ */
+
+import { useState, useCallback, useMemo, useRef } from 'react';
+import type { ClipsByCategory } from '../types';
+import {
+    checkLibraryIntegrity,
+    type IntegrityProgress,
+    type LibraryIntegrityReport,
+} from '../utils/integrity-checker';
+
+export interface UseIntegrityCheckReturn {
+    report: LibraryIntegrityReport | null;
+    isChecking: boolean;
+    progress: IntegrityProgress | null;
+    // Issue count per clip key
+    issueCounts: Record<string, number>;
+    checkLibrary: (clips: ClipsByCategory) => Promise<void>;
+    cancelCheck: () => void;
+    clearReport: () => void;
+}
+
+export function useIntegrityCheck(): UseIntegrityCheckReturn {
+    const [report, setReport] = useState<LibraryIntegrityReport | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+    const [progress, setProgress] = useState<IntegrityProgress | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const checkLibrary = useCallback(async (clips: ClipsByCategory) => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        setIsChecking(true);
+        setProgress(null);
+
+        try {
+            const result = await checkLibraryIntegrity(clips, setProgress, controller.signal);
+            if (!controller.signal.aborted) {
+                setReport(result);
+            }
+        } catch (err) {
+            console.error('Integrity check failed:', err);
+        } finally {
+            if (abortRef.current === controller) {
+                abortRef.current = null;
+                setIsChecking(false);
+                setProgress(null);
+            }
+        }
+    }, []);
+
+    const cancelCheck = useCallback(() => {
+        abortRef.current?.abort();
+        abortRef.current = null;
+        setIsChecking(false);
+        setProgress(null);
+    }, []);
+
+    const clearReport = useCallback(() => {
+        setReport(null);
+    }, []);
+
+    const issueCounts = useMemo(() => {
+        const counts: Record<string, number> = {};
+        for (const clipReport of report?.clips ?? []) {
+            counts[clipReport.key] = clipReport.issues.length;
+        }
+        return counts;
+    }, [report]);
+
+    return {
+        report,
+        isChecking,
+        progress,
+        issueCounts,
+        checkLibrary,
+        cancelCheck,
+        clearReport,
+    };
+}
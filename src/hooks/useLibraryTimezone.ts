@@ -0,0 +1,59 @@
+/**
+ * useLibraryTimezone Hook
+ *
+ * Per-library time zone setting, persisted in IndexedDB under the root key
+ * of the library's first source, and the resolved zone of each clip.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { ClipInfo } from '../types';
+import { getSourceRootKey, type LibrarySource } from '../utils/library-sources';
+import { STORES, storageGet, storagePut } from '../utils/storage';
+import { DEFAULT_TIMEZONE_SETTING, resolveClipTimeZone, type TimezoneSetting } from '../utils/timezone';
+
+interface StoredLibrarySettings {
+    rootKey: string;
+    timezone: TimezoneSetting;
+}
+
+export interface UseLibraryTimezoneReturn {
+    setting: TimezoneSetting;
+    updateSetting: (setting: TimezoneSetting) => void;
+    // Zone a clip's wall-clock times were recorded in
+    getClipTimeZone: (clip: ClipInfo) => string;
+}
+
+export function useLibraryTimezone(sources: LibrarySource[]): UseLibraryTimezoneReturn {
+    const [setting, setSetting] = useState<TimezoneSetting>(DEFAULT_TIMEZONE_SETTING);
+    const rootKey = sources.length > 0 ? getSourceRootKey(sources[0]) : null;
+
+    useEffect(() => {
+        setSetting(DEFAULT_TIMEZONE_SETTING);
+        if (!rootKey) return;
+
+        let active = true;
+        storageGet<StoredLibrarySettings>(STORES.librarySettings, rootKey)
+            .then(stored => {
+                if (active && stored) setSetting(stored.timezone);
+            })
+            .catch(err => console.warn('Failed to load library settings:', err));
+
+        return () => {
+            active = false;
+        };
+    }, [rootKey]);
+
+    const updateSetting = useCallback((next: TimezoneSetting) => {
+        setSetting(next);
+        if (!rootKey) return;
+        storagePut<StoredLibrarySettings>(STORES.librarySettings, { rootKey, timezone: next })
+            .catch(err => console.warn('Failed to save library settings:', err));
+    }, [rootKey]);
+
+    const getClipTimeZone = useCallback(
+        (clip: ClipInfo) => resolveClipTimeZone(clip, setting),
+        [setting]
+    );
+
+    return { setting, updateSetting, getClipTimeZone };
+}
@@ -1,6 +1,8 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import type { SeiData, Segment } from '../types';
 import type { SeiWorkerMessage, SeiWorkerResponse } from '../workers/sei-worker';
+import { type SeiSequenceReport, analyzeFrameSequence } from '../utils/sei-sequence';
+import { SeiTimeline } from '../utils/sei-timeline';
 
 interface UseSeiDataReturn {
     seiData: SeiData[];
@@ -8,6 +10,8 @@ interface UseSeiDataReturn {
     hasData: boolean;
     frameCount: number;
     progress: number;
+    // Dropped/duplicated frames in the loaded segment, once fully parsed
+    sequenceReport: SeiSequenceReport | null;
     getTelemetryAtTime: (currentTime: number) => SeiData | null;
     loadSegment: (segment: Segment) => void;
     reset: () => void;
@@ -18,12 +22,13 @@ export function useSeiData(): UseSeiDataReturn {
     const [isLoading, setIsLoading] = useState(false);
     const [progress, setProgress] = useState(0);
     const [segmentDuration, setSegmentDuration] = useState<number | null>(null);
+    const [sequenceReport, setSequenceReport] = useState<SeiSequenceReport | null>(null);
 
     // Worker reference
     const workerRef = useRef<Worker | null>(null);
 
-    // Frame cache - Map for O(1) lookup by frame index
-    const frameCacheRef = useRef<Map<number, SeiData>>(new Map());
+    // Parsed frames, searchable by video time
+    const timelineRef = useRef(new SeiTimeline());
 
     // Track current segment to avoid duplicate loads
     const currentSegmentRef = useRef<string | null>(null);
@@ -37,15 +42,15 @@ export function useSeiData(): UseSeiDataReturn {
         );
 
         workerRef.current.onmessage = (event: MessageEvent<SeiWorkerResponse>) => {
-            const { type, frame, frameIndex, progress: workerProgress, totalFrames, error } = event.data;
+            const { type, frame, frameIndex, timestamp, progress: workerProgress, totalFrames, error } = event.data;
 
             switch (type) {
                 case 'frame':
                     if (frame !== undefined && frameIndex !== undefined) {
-                        frameCacheRef.current.set(frameIndex, frame);
+                        timelineRef.current.add(frame, timestamp);
                         // Update state periodically (every 18 frames) to avoid too many re-renders
                         if (frameIndex % 18 === 0) {
-                            setSeiData(Array.from(frameCacheRef.current.values()));
+                            setSeiData(timelineRef.current.toArray());
                         }
                     }
                     break;
@@ -56,13 +61,21 @@ export function useSeiData(): UseSeiDataReturn {
                     }
                     break;
 
-                case 'complete':
+                case 'complete': {
                     setIsLoading(false);
                     setProgress(100);
                     // Final sync of all frames
-                    setSeiData(Array.from(frameCacheRef.current.values()));
+                    const frames = timelineRef.current.toArray();
+                    setSeiData(frames);
                     console.info(`SEI: Parsed ${totalFrames} frames`);
+
+                    const report = analyzeFrameSequence(frames);
+                    setSequenceReport(report);
+                    if (report && report.issues.length > 0) {
+                        console.warn(`SEI: ${report.dropped} dropped, ${report.duplicated} duplicated frames`, report.issues);
+                    }
                     break;
+                }
 
                 case 'error':
                     console.warn('SEI Worker error:', error);
@@ -99,8 +112,9 @@ export function useSeiData(): UseSeiDataReturn {
         currentSegmentRef.current = segmentKey;
 
         // Clear previous data
-        frameCacheRef.current.clear();
+        timelineRef.current.clear();
         setSeiData([]);
+        setSequenceReport(null);
         setIsLoading(true);
         setProgress(0);
         setSegmentDuration(segment.duration || null);
@@ -121,29 +135,7 @@ export function useSeiData(): UseSeiDataReturn {
     }, []);
 
     const getTelemetryAtTime = useCallback(
-        (currentTime: number): SeiData | null => {
-            const cache = frameCacheRef.current;
-            if (cache.size === 0) return null;
-
-            // Calculate effective FPS
-            let effectiveFps = 36; // Default to 36 FPS
-
-            if (segmentDuration !== null && segmentDuration > 0 && cache.size > 0) {
-                effectiveFps = cache.size / segmentDuration;
-            }
-
-            // Calculate frame index
-            const frameIndex = Math.floor(currentTime * effectiveFps);
-
-            // Look up in cache
-            const frame = cache.get(frameIndex);
-            if (frame) return frame;
-
-            // Fallback: find nearest frame
-            const maxIndex = cache.size - 1;
-            const clampedIndex = Math.min(frameIndex, maxIndex);
-            return cache.get(clampedIndex) || null;
-        },
+        (currentTime: number): SeiData | null => timelineRef.current.getFrameAtTime(currentTime, segmentDuration),
         [segmentDuration]
     );
 
@@ -151,8 +143,9 @@ export function useSeiData(): UseSeiDataReturn {
         // Abort any ongoing parsing
         workerRef.current?.postMessage({ type: 'abort' } as SeiWorkerMessage);
 
-        frameCacheRef.current.clear();
+        timelineRef.current.clear();
         setSeiData([]);
+        setSequenceReport(null);
         setProgress(0);
         setIsLoading(false);
         currentSegmentRef.current = null;
@@ -161,9 +154,10 @@ export function useSeiData(): UseSeiDataReturn {
     return {
         seiData,
         isLoading,
-        hasData: frameCacheRef.current.size > 0,
-        frameCount: frameCacheRef.current.size,
+        hasData: timelineRef.current.size > 0,
+        frameCount: timelineRef.current.size,
         progress,
+        sequenceReport,
         getTelemetryAtTime,
         loadSegment,
         reset,
@@ -0,0 +1,37 @@
+/**
+ * useThumbnailUrl Hook
+ *
+ * Resolves a clip's thumbnail to an object URL through the shared thumbnail
+ * cache, releasing it when the component unmounts or the clip changes.
+ * Clips without a thumb.png fall back to a thumbnail generated from video;
+ * releasing one that is still queued for decoding cancels it.
+ */
+
+import { useEffect, useState } from 'react';
+import type { ClipInfo } from '../types';
+import { thumbnailCache } from '../utils/thumbnail-cache';
+import { getThumbnailSource, loadGeneratedThumbnailUrl } from '../utils/thumbnail-generator';
+
+export function useThumbnailUrl(clip: ClipInfo): string | null {
+    const [url, setUrl] = useState<string | null>(null);
+    const videoHandle = clip.thumbnailHandle ? null : getThumbnailSource(clip);
+    const handle = clip.thumbnailHandle ?? videoHandle;
+
+    useEffect(() => {
+        setUrl(null);
+        if (!handle) return;
+
+        let active = true;
+        const load = videoHandle ? loadGeneratedThumbnailUrl : undefined;
+        thumbnailCache.acquire(handle, load).then((thumbnailUrl) => {
+            if (active) setUrl(thumbnailUrl);
+        });
+
+        return () => {
+            active = false;
+            thumbnailCache.release(handle);
+        };
+    }, [handle, videoHandle]);
+
+    return url;
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ClipInfo, SeiData } from '../types';
+import { type TrackData, getTrackSampleAtTime, parseTrackCsv, trackSampleToSeiData } from '../utils/track-mode';
+
+interface UseTrackDataReturn {
+    trackData: TrackData | null;
+    hasData: boolean;
+    sampleCount: number;
+    getTelemetryAtTime: (time: number) => SeiData | null;
+}
+
+/**
+ * Load the Track Mode CSV of a clip, if it has one
+ */
+export function useTrackData(clip: ClipInfo | null): UseTrackDataReturn {
+    const [trackData, setTrackData] = useState<TrackData | null>(null);
+    const trackDataHandle = clip?.trackDataHandle ?? null;
+
+    useEffect(() => {
+        setTrackData(null);
+        if (!trackDataHandle) return;
+
+        let cancelled = false;
+        trackDataHandle.getFile()
+            .then(file => file.text())
+            .then(text => {
+                if (!cancelled) setTrackData(parseTrackCsv(text));
+            })
+            .catch(err => console.warn('Error reading Track Mode data:', err));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [trackDataHandle]);
+
+    const getTelemetryAtTime = useCallback((time: number): SeiData | null => {
+        const sample = trackData ? getTrackSampleAtTime(trackData, time) : null;
+        return sample ? trackSampleToSeiData(sample) : null;
+    }, [trackData]);
+
+    return {
+        trackData,
+        hasData: (trackData?.samples.length ?? 0) > 0,
+        sampleCount: trackData?.samples.length ?? 0,
+        getTelemetryAtTime,
+    };
+}
@@ -1,6 +1,11 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import type { ClipInfo, Segment, SegmentTiming, Camera } from '../types';
 import { CAMERAS, SYNC_DRIFT_THRESHOLD, STALL_THRESHOLD_FRAMES, DEFAULT_SEGMENT_DURATION } from '../utils/constants';
+import { parseClipTimestamp, parseEventWallClock } from '../utils/time-utils';
+import { fromWallClock } from '../utils/timezone';
+
+// An event this far past the end of the last segment isn't part of the clip
+const EVENT_TIME_TOLERANCE = 5;
 
 interface UseUnifiedTimelineReturn {
     // Timeline state
@@ -8,6 +13,8 @@ interface UseUnifiedTimelineReturn {
     currentTime: number;
     currentSegmentIndex: number;
     segmentTimings: SegmentTiming[];
+    // Position of the event.json moment on the timeline (null if unknown)
+    eventTime: number | null;
 
     // Video refs for each camera
     videoRefs: Record<Camera, React.RefObject<HTMLVideoElement | null>>;
@@ -16,7 +23,8 @@ interface UseUnifiedTimelineReturn {
     seekTo: (time: number) => void;
     seekToPercent: (percent: number) => void;
     skip: (seconds: number) => void;
-    loadClip: (clip: ClipInfo) => Promise<void>;
+    loadClip: (clip: ClipInfo, options?: LoadClipOptions) => Promise<void>;
+    refreshClip: (clip: ClipInfo) => Promise<void>;
 
     // Segment info at current time
     getCurrentSegment: () => Segment | null;
@@ -26,6 +34,11 @@ interface UseUnifiedTimelineReturn {
     clearErrors: () => void;
 }
 
+export interface LoadClipOptions {
+    // Start this many seconds before the event moment (null = from the beginning)
+    startBeforeEvent?: number | null;
+}
+
 interface UseUnifiedTimelineProps {
     onEnded?: () => void;
 }
@@ -55,21 +68,14 @@ export function useUnifiedTimeline(props: UseUnifiedTimelineProps = {}): UseUnif
     // Calculate segment timings based on durations
     const segmentTimings = useMemo((): SegmentTiming[] => {
         if (!clip || segmentDurations.length === 0) return [];
-
-        let cumulativeTime = 0;
-        return clip.segments.map((_, index) => {
-            const duration = segmentDurations[index] || 0;
-            const timing: SegmentTiming = {
-                index,
-                startTime: cumulativeTime,
-                endTime: cumulativeTime + duration,
-                duration,
-            };
-            cumulativeTime += duration;
-            return timing;
-        });
+        return buildSegmentTimings(clip, segmentDurations);
     }, [clip, segmentDurations]);
 
+    const eventTime = useMemo(
+        () => (clip ? findEventTime(clip, segmentTimings) : null),
+        [clip, segmentTimings]
+    );
+
     // Total duration of all segments
     const totalDuration = useMemo(() => {
         return segmentDurations.reduce((sum, d) => sum + d, 0);
@@ -79,37 +85,24 @@ export function useUnifiedTimeline(props: UseUnifiedTimelineProps = {}): UseUnif
      * Get segment index and local time for a given unified timeline position
      */
     const getSegmentAtTime = useCallback(
-        (time: number): { index: number; localTime: number } => {
-            if (segmentTimings.length === 0) {
-                return { index: 0, localTime: 0 };
-            }
-
-            // Clamp time to valid range
-            const clampedTime = Math.max(0, Math.min(time, totalDuration));
-
-            for (const timing of segmentTimings) {
-                if (clampedTime >= timing.startTime && clampedTime < timing.endTime) {
-                    return {
-                        index: timing.index,
-                        localTime: clampedTime - timing.startTime,
-                    };
-                }
-            }
-
-            // If at end, return last segment
-            const lastTiming = segmentTimings[segmentTimings.length - 1];
-            return {
-                index: lastTiming.index,
-                localTime: lastTiming.duration,
-            };
-        },
-        [segmentTimings, totalDuration]
+        (time: number) => findSegmentAtTime(segmentTimings, time),
+        [segmentTimings]
     );
 
+    // Latest values for callbacks that must stay stable across renders
+    const clipRef = useRef<ClipInfo | null>(null);
+    const segmentDurationsRef = useRef<number[]>([]);
+    const currentSegmentIndexRef = useRef(0);
+    const loadTokenRef = useRef(0);
+    segmentDurationsRef.current = segmentDurations;
+    currentSegmentIndexRef.current = currentSegmentIndex;
+
     /**
      * Load a clip and calculate all segment durations
      */
-    const loadClip = useCallback(async (newClip: ClipInfo) => {
+    const loadClip = useCallback(async (newClip: ClipInfo, options: LoadClipOptions = {}) => {
+        const loadToken = ++loadTokenRef.current;
+        clipRef.current = newClip;
         setIsReady(false);
         setClip(newClip);
         setCurrentSegmentIndex(0);
@@ -121,49 +114,71 @@ export function useUnifiedTimeline(props: UseUnifiedTimelineProps = {}): UseUnif
         const errors: string[] = [];
 
         for (const segment of newClip.segments) {
-            const frontHandle = segment.files.front;
-            if (frontHandle) {
-                try {
-                    const file = await frontHandle.getFile();
-                    const url = URL.createObjectURL(file);
-
-                    // Create temp video to get duration
-                    const duration = await new Promise<number>((resolve) => {
-                        const tempVideo = document.createElement('video');
-                        tempVideo.preload = 'metadata';
-                        tempVideo.onloadedmetadata = () => {
-                            URL.revokeObjectURL(url);
-                            resolve(tempVideo.duration || DEFAULT_SEGMENT_DURATION);
-                        };
-                        tempVideo.onerror = () => {
-                            URL.revokeObjectURL(url);
-                            const errorMsg = `Failed to load segment ${segment.timeStr}`;
-                            console.warn(errorMsg);
-                            errors.push(errorMsg);
-                            resolve(DEFAULT_SEGMENT_DURATION);
-                        };
-                        tempVideo.src = url;
-                    });
-
-                    durations.push(duration);
-                } catch (err) {
-                    const errorMsg = `Error loading segment ${segment.timeStr}: ${err}`;
-                    console.warn(errorMsg);
-                    errors.push(errorMsg);
-                    durations.push(DEFAULT_SEGMENT_DURATION);
-                }
-            } else {
-                durations.push(DEFAULT_SEGMENT_DURATION);
-            }
+            durations.push(await loadSegmentDuration(segment, errors));
         }
 
+        if (loadToken !== loadTokenRef.current) return;
         setSegmentDurations(durations);
         if (errors.length > 0) {
             setLoadErrors(errors);
         }
+
+        // Open shortly before the moment that triggered the event
+        const timings = buildSegmentTimings(newClip, durations);
+        const clipEventTime = findEventTime(newClip, timings);
+        if (options.startBeforeEvent != null && clipEventTime !== null) {
+            const startTime = Math.max(0, clipEventTime - options.startBeforeEvent);
+            const { index, localTime } = findSegmentAtTime(timings, startTime);
+            setCurrentSegmentIndex(index);
+            setCurrentTime(startTime);
+            pendingSeekTimeRef.current = localTime;
+        }
         setIsReady(true);
     }, []);
 
+    /**
+     * Update the loaded clip after a rescan without resetting playback.
+     * Durations are reused for known segments and only measured for new ones.
+     */
+    const refreshClip = useCallback(async (updatedClip: ClipInfo) => {
+        const previousClip = clipRef.current;
+        if (!previousClip || previousClip === updatedClip) return;
+
+        const loadToken = ++loadTokenRef.current;
+        const knownDurations = new Map<Segment, number>();
+        previousClip.segments.forEach((segment, i) => {
+            const duration = segmentDurationsRef.current[i];
+            if (duration !== undefined) knownDurations.set(segment, duration);
+        });
+
+        const durations: number[] = [];
+        const errors: string[] = [];
+        for (const segment of updatedClip.segments) {
+            durations.push(knownDurations.get(segment) ?? await loadSegmentDuration(segment, errors));
+        }
+
+        if (loadToken !== loadTokenRef.current) return;
+
+        // Follow the playing segment to its new position
+        const playingTimeStr = previousClip.segments[currentSegmentIndexRef.current]?.timeStr;
+        const newIndex = updatedClip.segments.findIndex(segment => segment.timeStr === playingTimeStr);
+
+        clipRef.current = updatedClip;
+        setClip(updatedClip);
+        setSegmentDurations(durations);
+        if (errors.length > 0) {
+            setLoadErrors(prev => [...prev, ...errors]);
+        }
+
+        if (newIndex === -1) {
+            // Playing segment was removed: continue from the nearest remaining one
+            pendingSeekTimeRef.current = 0;
+            setCurrentSegmentIndex(Math.max(0, Math.min(currentSegmentIndexRef.current, updatedClip.segments.length - 1)));
+        } else if (newIndex !== currentSegmentIndexRef.current) {
+            setCurrentSegmentIndex(newIndex);
+        }
+    }, []);
+
     /**
      * Clear load errors
      */
@@ -451,13 +466,122 @@ export function useUnifiedTimeline(props: UseUnifiedTimelineProps = {}): UseUnif
         currentTime,
         currentSegmentIndex,
         segmentTimings,
+        eventTime,
         videoRefs: videoRefHolders.current,
         seekTo,
         seekToPercent,
         skip,
         loadClip,
+        refreshClip,
         getCurrentSegment,
         loadErrors,
         clearErrors,
     };
 }
+
+/**
+ * Lay segments out back to back on the unified timeline
+ */
+function buildSegmentTimings(clip: ClipInfo, durations: number[]): SegmentTiming[] {
+    let cumulativeTime = 0;
+    return clip.segments.map((_, index) => {
+        const duration = durations[index] || 0;
+        const timing: SegmentTiming = {
+            index,
+            startTime: cumulativeTime,
+            endTime: cumulativeTime + duration,
+            duration,
+        };
+        cumulativeTime += duration;
+        return timing;
+    });
+}
+
+/**
+ * Get segment index and local time for a given unified timeline position
+ */
+function findSegmentAtTime(timings: SegmentTiming[], time: number): { index: number; localTime: number } {
+    if (timings.length === 0) {
+        return { index: 0, localTime: 0 };
+    }
+
+    // Clamp time to valid range
+    const totalDuration = timings[timings.length - 1].endTime;
+    const clampedTime = Math.max(0, Math.min(time, totalDuration));
+
+    for (const timing of timings) {
+        if (clampedTime >= timing.startTime && clampedTime < timing.endTime) {
+            return {
+                index: timing.index,
+                localTime: clampedTime - timing.startTime,
+            };
+        }
+    }
+
+    // If at end, return last segment
+    const lastTiming = timings[timings.length - 1];
+    return {
+        index: lastTiming.index,
+        localTime: lastTiming.duration,
+    };
+}
+
+/**
+ * Translate the event.json timestamp into a unified timeline position.
+ * Both it and segment names are car wall-clock times, so they are compared
+ * as UTC to stay independent of the viewer's zone and DST.
+ */
+function findEventTime(clip: ClipInfo, timings: SegmentTiming[]): number | null {
+    const wall = clip.event?.timestamp ? parseEventWallClock(clip.event.timestamp) : null;
+    if (!wall || timings.length === 0) return null;
+    const eventMs = fromWallClock(wall, 'UTC');
+
+    // Last segment starting at or before the event
+    let match: { timing: SegmentTiming; offset: number } | null = null;
+    for (const timing of timings) {
+        const start = parseClipTimestamp(clip.segments[timing.index].timeStr, 'UTC');
+        if (!start || start > eventMs) continue;
+        match = { timing, offset: (eventMs - start) / 1000 };
+    }
+
+    if (!match || match.offset > match.timing.duration + EVENT_TIME_TOLERANCE) return null;
+    return match.timing.startTime + Math.min(match.offset, match.timing.duration);
+}
+
+/**
+ * Measure a segment's duration from its front camera video metadata
+ */
+async function loadSegmentDuration(segment: Segment, errors: string[]): Promise<number> {
+    const frontHandle = segment.files.front;
+    if (!frontHandle) {
+        return DEFAULT_SEGMENT_DURATION;
+    }
+
+    try {
+        const file = await frontHandle.getFile();
+        const url = URL.createObjectURL(file);
+
+        // Create temp video to get duration
+        return await new Promise<number>((resolve) => {
+            const tempVideo = document.createElement('video');
+            tempVideo.preload = 'metadata';
+            tempVideo.onloadedmetadata = () => {
+                URL.revokeObjectURL(url);
+                resolve(tempVideo.duration || DEFAULT_SEGMENT_DURATION);
+            };
+            tempVideo.onerror = () => {
+                URL.revokeObjectURL(url);
+                const errorMsg = `Failed to load segment ${segment.timeStr}`;
+                console.warn(errorMsg);
+                errors.push(errorMsg);
+                resolve(DEFAULT_SEGMENT_DURATION);
+            };
+            tempVideo.src = url;
+        });
+    } catch (err) {
+        const errorMsg = `Error loading segment ${segment.timeStr}: ${err}`;
+        console.warn(errorMsg);
+        errors.push(errorMsg);
+        return DEFAULT_SEGMENT_DURATION;
+    }
+}
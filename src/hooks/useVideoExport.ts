@@ -7,7 +7,7 @@
 
 import { useState, useCallback, useRef } from 'react';
 import type { Camera, ClipInfo, LayoutMode, SeiData, Segment } from '../types';
-import { VideoExporter, downloadBlob } from '../utils/video-exporter';
+import { VideoExporter, downloadBlob, getExportFileName } from '../utils/video-exporter';
 import type { ExportProgress } from '../types';
 import {
     WebCodecsExporter,
@@ -16,6 +16,7 @@ import {
     type WebCodecsExportOptions
 } from '../utils/webcodecs-exporter';
 import { SeiExtractor } from '../utils/sei-extractor';
+import type { SeiTimeline } from '../utils/sei-timeline';
 
 export interface UseVideoExportReturn {
     isExporting: boolean;
@@ -34,6 +35,8 @@ export interface StartExportOptions {
     getTelemetryAtTime: (time: number) => SeiData | null;
     totalDuration: number;
     currentSegmentIndex: number;
+    // Library time zone of the clip, used for the filename
+    timeZone?: string;
 }
 
 export function useVideoExport(): UseVideoExportReturn {
@@ -53,9 +56,6 @@ export function useVideoExport(): UseVideoExportReturn {
         setIsExporting(true);
         setLogs([]);
 
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-        const filename = `${clip.name}_${timestamp}.webm`;
-
         try {
             // Determine segments to export
             // If segment is provided, export only that one. Otherwise export all.
@@ -138,12 +138,12 @@ export function useVideoExport(): UseVideoExportReturn {
                     await Promise.all(entryPromises);
 
                     // Extract SEI data if front camera is available
-                    let seiData: SeiData[] | undefined;
+                    let seiData: SeiTimeline | undefined;
                     if (fileMap.front) {
                         try {
                             setLogs(prev => [...prev, `Parsing telemetry for segment ${i + 1}...`]);
                             seiData = await SeiExtractor.extract(fileMap.front);
-                            setLogs(prev => [...prev, `Parsed ${seiData.length} telemetry frames`]);
+                            setLogs(prev => [...prev, `Parsed ${seiData?.size ?? 0} telemetry frames`]);
                         } catch (e) {
                             console.warn('Failed to extract SEI data:', e);
                             setLogs(prev => [...prev, 'Warning: Failed to extract telemetry data']);
@@ -176,12 +176,7 @@ export function useVideoExport(): UseVideoExportReturn {
                 const blob = await exporter.startExport(exportSegments, layout);
 
                 if (blob) {
-                    const url = URL.createObjectURL(blob);
-                    const a = document.createElement('a');
-                    a.href = url;
-                    a.download = `anicam-export-${new Date().getTime()}${exporter.getFileExtension()}`;
-                    a.click();
-                    URL.revokeObjectURL(url);
+                    downloadBlob(blob, getExportFileName(clip, segment, exporter.getFileExtension(), options.timeZone));
                 }
             } else {
                 if (!segment && clip.segments.length > 1) {
@@ -208,7 +203,7 @@ export function useVideoExport(): UseVideoExportReturn {
                 });
 
                 if (blob) {
-                    downloadBlob(blob, filename);
+                    downloadBlob(blob, getExportFileName(clip, segment, '.webm', options.timeZone));
                 }
             }
         } catch (err) {
@@ -0,0 +1,69 @@
+/**
+ * useVirtualRows Hook
+ *
+ * Computes which fixed-height rows of a list are inside its scroll
+ * container's viewport. The list may sit anywhere inside the container
+ * (e.g. below other sidebar sections), so its offset is measured on scroll
+ * and whenever the container or its sections resize.
+ */
+
+import { useCallback, useEffect, useState, type RefObject } from 'react';
+
+export interface VirtualRange {
+    start: number;
+    // Exclusive
+    end: number;
+}
+
+// Rows rendered beyond each edge of the viewport
+const OVERSCAN_ROWS = 6;
+
+export function useVirtualRows(
+    listRef: RefObject<HTMLElement>,
+    scrollContainerRef: RefObject<HTMLElement> | undefined,
+    count: number,
+    rowHeight: number
+): VirtualRange {
+    const [range, setRange] = useState<VirtualRange>({ start: 0, end: 0 });
+
+    const update = useCallback(() => {
+        const list = listRef.current;
+        const container = scrollContainerRef?.current;
+        if (!list) return;
+
+        let start = 0;
+        let end = count;
+        if (container) {
+            const listTop = list.getBoundingClientRect().top - container.getBoundingClientRect().top;
+            const visibleFrom = Math.max(0, -listTop);
+            const visibleTo = container.clientHeight - listTop;
+
+            start = Math.max(0, Math.floor(visibleFrom / rowHeight) - OVERSCAN_ROWS);
+            end = Math.min(count, Math.ceil(visibleTo / rowHeight) + OVERSCAN_ROWS);
+        }
+
+        setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end: Math.max(start, end) }));
+    }, [listRef, scrollContainerRef, count, rowHeight]);
+
+    useEffect(() => {
+        update();
+
+        const container = scrollContainerRef?.current;
+        if (!container) return;
+
+        container.addEventListener('scroll', update, { passive: true });
+        // Sections above this list change its offset when they expand or collapse
+        const observer = new ResizeObserver(update);
+        observer.observe(container);
+        for (const child of Array.from(container.children)) {
+            observer.observe(child);
+        }
+
+        return () => {
+            container.removeEventListener('scroll', update);
+            observer.disconnect();
+        };
+    }, [update, scrollContainerRef]);
+
+    return range;
+}
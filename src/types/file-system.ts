@@ -12,4 +12,5 @@ export interface IFileSystemDirectoryEntry extends IFileSystemEntry {
     kind: 'directory';
     entries(): AsyncIterableIterator<[string, IFileSystemEntry]>;
     getDirectoryHandle(name: string): Promise<IFileSystemDirectoryEntry>;
+    getFileHandle(name: string): Promise<IFileSystemFileEntry>;
 }
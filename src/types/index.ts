@@ -10,7 +10,7 @@ export type Camera =
     | 'right_repeater';
 
 // Clip categories matching Tesla folder structure
-export type ClipCategory = 'SavedClips' | 'SentryClips' | 'RecentClips';
+export type ClipCategory = 'SavedClips' | 'SentryClips' | 'RecentClips' | 'TeslaTrackMode';
 
 // Video layout modes
 export type LayoutMode = '3x2' | '2x2' | 'single';
@@ -28,8 +28,14 @@ export interface EventMetadata {
     city?: string;
     street?: string;
     reason?: string;
+    // Estimated position (est_lat/est_lon)
     latitude?: number;
     longitude?: number;
+    // Camera that triggered the event, and Tesla's raw camera id
+    camera?: Camera;
+    cameraId?: string;
+    // Fields this viewer doesn't know, kept as written
+    extra?: Record<string, unknown>;
 }
 
 // Complete clip information
@@ -42,6 +48,12 @@ export interface ClipInfo {
     thumbnailHandle: IFileSystemFileEntry | null;
     cameras: Set<Camera>;
     timestamp: number;
+    // Id of the library source (root) the clip was scanned from
+    source?: string;
+    // Folder path relative to the source root, for clips scanned from a folder
+    path?: string[];
+    // Track Mode lap/telemetry CSV recorded alongside the video
+    trackDataHandle?: IFileSystemFileEntry | null;
 }
 
 // Clips organized by category
@@ -49,10 +61,15 @@ export interface ClipsByCategory {
     SavedClips: ClipInfo[];
     SentryClips: ClipInfo[];
     RecentClips: ClipInfo[];
+    TeslaTrackMode: ClipInfo[];
 }
 
 // SEI telemetry data from video frames
 export interface SeiData {
+    // dashcam.proto revision the frame was written with
+    version?: number;
+    // Increments by one per recorded frame
+    frame_seq_no?: number;
     vehicle_speed_mps?: number;
     gear_state?: number;
     steering_wheel_angle?: number;
@@ -63,9 +80,23 @@ export interface SeiData {
     blinker_on_right?: boolean;
     latitude_deg?: number;
     longitude_deg?: number;
+    // Direction of travel, degrees clockwise from north
+    heading_deg?: number;
     linear_acceleration_mps2_x?: number;
     linear_acceleration_mps2_y?: number;
     linear_acceleration_mps2_z?: number;
+    // Fields the schema for this version doesn't describe, as read from the protobuf
+    unknownFields?: SeiProtoField[];
+    // The NAL unit the frame was decoded from
+    rawNal?: Uint8Array;
+}
+
+// Raw protobuf field of an SEI message
+export interface SeiProtoField {
+    number: number;
+    wireType: number;
+    // Varint value, or the field's bytes for fixed and length-delimited fields
+    value: number | Uint8Array;
 }
 
 // Unified timeline segment timing
@@ -0,0 +1,91 @@
+/**
+ * Clip Calendar
+ *
+ * Groups clips by local calendar day for the sidebar calendar view.
+ * A clip is listed on every day one of its segments was recorded, so a
+ * drive past midnight shows up on both days.
+ */
+
+import type { ClipCategory, ClipInfo, ClipsByCategory } from '../types';
+import { CLIP_CATEGORIES } from './constants';
+import { parseClipTimestamp } from './time-utils';
+
+export type DayClips = Record<ClipCategory, ClipInfo[]>;
+
+/**
+ * Local day key (YYYY-MM-DD) of a timestamp
+ */
+export function getDayKey(time: number | Date): string {
+    const date = new Date(time);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Collect the days a clip covers from its timestamp and segment times
+ */
+function getClipDays(clip: ClipInfo): Set<string> {
+    const days = new Set<string>();
+    if (clip.timestamp) days.add(getDayKey(clip.timestamp));
+    for (const segment of clip.segments) {
+        const time = parseClipTimestamp(segment.timeStr);
+        if (time) days.add(getDayKey(time));
+    }
+    return days;
+}
+
+/**
+ * Group clips by day key
+ */
+export function groupClipsByDay(clips: ClipsByCategory): Map<string, DayClips> {
+    const days = new Map<string, DayClips>();
+
+    for (const category of CLIP_CATEGORIES) {
+        for (const clip of clips[category]) {
+            for (const day of getClipDays(clip)) {
+                let dayClips = days.get(day);
+                if (!dayClips) {
+                    dayClips = { SavedClips: [], SentryClips: [], RecentClips: [], TeslaTrackMode: [] };
+                    days.set(day, dayClips);
+                }
+                dayClips[category].push(clip);
+            }
+        }
+    }
+
+    return days;
+}
+
+/**
+ * Dates shown in a month grid: whole weeks (Monday first) covering the month
+ */
+export function getMonthGrid(year: number, month: number): Date[] {
+    const first = new Date(year, month, 1);
+    // Days since Monday
+    const offset = (first.getDay() + 6) % 7;
+    const start = new Date(year, month, 1 - offset);
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const weeks = Math.ceil((offset + daysInMonth) / 7);
+
+    const dates: Date[] = [];
+    for (let i = 0; i < weeks * 7; i++) {
+        dates.push(new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+    }
+    return dates;
+}
+
+/**
+ * Timestamp of the most recent clip, used to open the calendar on a useful month
+ */
+export function getLatestClipTime(clips: ClipsByCategory): number | null {
+    let latest: number | null = null;
+    for (const category of CLIP_CATEGORIES) {
+        for (const clip of clips[category]) {
+            if (clip.timestamp && (latest === null || clip.timestamp > latest)) {
+                latest = clip.timestamp;
+            }
+        }
+    }
+    return latest;
+}
@@ -0,0 +1,108 @@
+/**
+ * Clip Diffing
+ *
+ * Merges a fresh scan into the clips currently shown, preserving object
+ * identity for everything that did not change so that the sidebar and an
+ * active player do not reset.
+ */
+
+import type { ClipInfo, ClipsByCategory, Segment } from '../types';
+import { CLIP_CATEGORIES } from './constants';
+
+export interface ClipsMergeResult {
+    clips: ClipsByCategory;
+    added: number;
+    removed: number;
+    updated: number;
+}
+
+/**
+ * Key identifying the same clip across scans
+ */
+export function getClipKey(clip: ClipInfo): string {
+    const key = `${clip.category}/${clip.name}`;
+    return clip.source ? `${clip.source}:${key}` : key;
+}
+
+function isSameSegment(a: Segment, b: Segment): boolean {
+    if (a.timeStr !== b.timeStr) return false;
+    const aCameras = Object.keys(a.files).sort().join(',');
+    const bCameras = Object.keys(b.files).sort().join(',');
+    return aCameras === bCameras;
+}
+
+/**
+ * Merge one fresh clip into its previous version.
+ * Returns the previous object when nothing changed.
+ */
+function mergeClip(previous: ClipInfo, fresh: ClipInfo): ClipInfo {
+    const previousByTime = new Map(previous.segments.map(segment => [segment.timeStr, segment]));
+
+    let segmentsChanged = previous.segments.length !== fresh.segments.length;
+    const segments = fresh.segments.map((segment, i) => {
+        const existing = previousByTime.get(segment.timeStr);
+        if (existing && isSameSegment(existing, segment)) {
+            if (previous.segments[i] !== existing) segmentsChanged = true;
+            return existing;
+        }
+        segmentsChanged = true;
+        return segment;
+    });
+
+    const eventChanged = JSON.stringify(previous.event) !== JSON.stringify(fresh.event);
+    const thumbnailChanged = (previous.thumbnailHandle?.name ?? null) !== (fresh.thumbnailHandle?.name ?? null);
+    const trackDataChanged = (previous.trackDataHandle?.name ?? null) !== (fresh.trackDataHandle?.name ?? null);
+
+    if (!segmentsChanged && !eventChanged && !thumbnailChanged && !trackDataChanged) {
+        return previous;
+    }
+
+    return {
+        ...fresh,
+        segments,
+    };
+}
+
+/**
+ * Merge a fresh scan result into the current clips
+ */
+export function mergeRescannedClips(current: ClipsByCategory, fresh: ClipsByCategory): ClipsMergeResult {
+    const result: ClipsMergeResult = {
+        clips: { ...current },
+        added: 0,
+        removed: 0,
+        updated: 0,
+    };
+
+    for (const category of CLIP_CATEGORIES) {
+        const previousByKey = new Map(current[category].map(clip => [getClipKey(clip), clip]));
+        const freshKeys = new Set(fresh[category].map(getClipKey));
+
+        const merged = fresh[category].map((clip) => {
+            const previous = previousByKey.get(getClipKey(clip));
+            if (!previous) {
+                result.added++;
+                return clip;
+            }
+            const mergedClip = mergeClip(previous, clip);
+            if (mergedClip !== previous) result.updated++;
+            return mergedClip;
+        });
+
+        for (const key of previousByKey.keys()) {
+            if (!freshKeys.has(key)) result.removed++;
+        }
+
+        result.clips[category] = merged;
+    }
+
+    return result;
+}
+
+/**
+ * Find the counterpart of a clip in a clip set
+ */
+export function findClip(clips: ClipsByCategory, clip: ClipInfo): ClipInfo | undefined {
+    const key = getClipKey(clip);
+    return clips[clip.category].find(candidate => getClipKey(candidate) === key);
+}
@@ -0,0 +1,145 @@
+/**
+ * Clip Filtering
+ *
+ * Narrows the library shown in the sidebar by date, event reason, location
+ * text, recorded cameras, duration and the user's own stars and tags.
+ */
+
+import type { Camera, ClipInfo, ClipsByCategory } from '../types';
+import type { ClipNote } from './clip-notes';
+import { CLIP_CATEGORIES, DEFAULT_SEGMENT_DURATION } from './constants';
+import { parseClipTimestamp } from './time-utils';
+
+export interface ClipFilter {
+    // Inclusive local dates as YYYY-MM-DD (empty = unbounded)
+    dateFrom: string;
+    dateTo: string;
+    // Raw event.json reasons; empty = any
+    reasons: string[];
+    // Matched against city, street, tags and notes
+    text: string;
+    // Clips must include every selected camera
+    cameras: Camera[];
+    // Duration bounds in minutes (null = unbounded)
+    minDuration: number | null;
+    maxDuration: number | null;
+    starredOnly: boolean;
+    // Clips must carry every selected tag
+    tags: string[];
+}
+
+export const EMPTY_FILTER: ClipFilter = {
+    dateFrom: '',
+    dateTo: '',
+    reasons: [],
+    text: '',
+    cameras: [],
+    minDuration: null,
+    maxDuration: null,
+    starredOnly: false,
+    tags: [],
+};
+
+export function isFilterActive(filter: ClipFilter): boolean {
+    return filter.dateFrom !== ''
+        || filter.dateTo !== ''
+        || filter.reasons.length > 0
+        || filter.text.trim() !== ''
+        || filter.cameras.length > 0
+        || filter.minDuration !== null
+        || filter.maxDuration !== null
+        || filter.starredOnly
+        || filter.tags.length > 0;
+}
+
+/**
+ * Estimate clip duration in seconds from segment start times,
+ * without loading any video metadata
+ */
+export function estimateClipDuration(clip: ClipInfo): number {
+    if (clip.segments.length === 0) return 0;
+
+    const first = parseClipTimestamp(clip.segments[0].timeStr);
+    const last = parseClipTimestamp(clip.segments[clip.segments.length - 1].timeStr);
+    if (!first || !last) {
+        return clip.segments.length * DEFAULT_SEGMENT_DURATION;
+    }
+    return (last - first) / 1000 + DEFAULT_SEGMENT_DURATION;
+}
+
+/**
+ * Parse a YYYY-MM-DD date input value as local midnight
+ */
+function parseDateInput(value: string): number | null {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return null;
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+}
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export function matchesFilter(clip: ClipInfo, filter: ClipFilter, note?: ClipNote): boolean {
+    const from = parseDateInput(filter.dateFrom);
+    if (from !== null && clip.timestamp < from) return false;
+
+    const to = parseDateInput(filter.dateTo);
+    if (to !== null && clip.timestamp >= to + ONE_DAY_MS) return false;
+
+    if (filter.reasons.length > 0 && !filter.reasons.includes(clip.event?.reason ?? '')) {
+        return false;
+    }
+
+    const text = filter.text.trim().toLowerCase();
+    if (text) {
+        const searchable = [
+            clip.event?.city,
+            clip.event?.street,
+            ...(note?.tags ?? []),
+            note?.notes,
+        ].join(' ').toLowerCase();
+        if (!searchable.includes(text)) return false;
+    }
+
+    if (filter.starredOnly && !note?.starred) return false;
+    if (!filter.tags.every(tag => note?.tags.includes(tag))) return false;
+
+    if (!filter.cameras.every(camera => clip.cameras.has(camera))) return false;
+
+    if (filter.minDuration !== null || filter.maxDuration !== null) {
+        const minutes = estimateClipDuration(clip) / 60;
+        if (filter.minDuration !== null && minutes < filter.minDuration) return false;
+        if (filter.maxDuration !== null && minutes > filter.maxDuration) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Apply a filter across all categories
+ */
+export function filterClips(
+    clips: ClipsByCategory,
+    filter: ClipFilter,
+    getNote?: (clip: ClipInfo) => ClipNote | undefined
+): ClipsByCategory {
+    if (!isFilterActive(filter)) return clips;
+
+    const filtered = { ...clips };
+    for (const category of CLIP_CATEGORIES) {
+        filtered[category] = clips[category].filter(clip => matchesFilter(clip, filter, getNote?.(clip)));
+    }
+    return filtered;
+}
+
+/**
+ * Collect the event reasons present in the library, for the reason picker
+ */
+export function collectReasons(clips: ClipsByCategory): string[] {
+    const reasons = new Set<string>();
+    for (const category of CLIP_CATEGORIES) {
+        for (const clip of clips[category]) {
+            if (clip.event?.reason) reasons.add(clip.event.reason);
+        }
+    }
+    return Array.from(reasons).sort();
+}
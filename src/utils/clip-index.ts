@@ -0,0 +1,215 @@
+/**
+ * Persistent Clip Index
+ *
+ * Caches scanned ClipInfo metadata per library root in IndexedDB, so a large
+ * drive can render its sidebar immediately and only rescan clip folders whose
+ * files changed (by name, size or modification time).
+ */
+
+import type { Camera, ClipCategory, ClipInfo, ClipsByCategory, EventMetadata, Segment } from '../types';
+import type { IFileSystemDirectoryEntry, IFileSystemEntry, IFileSystemFileEntry } from '../types/file-system';
+import { PathFileSystemDirectoryEntry, PathFileSystemFileEntry } from './file-system-adapters';
+import { STORES, storageDelete, storageGet, storagePut } from './storage';
+import { splitIntoSessions } from './clip-sessions';
+
+/**
+ * Persisted metadata for one clip folder
+ */
+export interface ClipIndexRecord {
+    // Folder path relative to the library root
+    path: string[];
+    fingerprint: string;
+    name: string;
+    category: ClipCategory;
+    event: EventMetadata | null;
+    thumbnail: string | null;
+    cameras: Camera[];
+    segments: {
+        timeStr: string;
+        files: Partial<Record<Camera, string>>;
+    }[];
+    timestamp: number;
+}
+
+// Bump when the record format or how records are derived changes
+const CLIP_INDEX_VERSION = 2;
+
+interface StoredClipIndex {
+    rootKey: string;
+    version?: number;
+    updatedAt: number;
+    records: ClipIndexRecord[];
+}
+
+/**
+ * In-memory view of a root's index used during a scan:
+ * lookups read the previous index, and every scanned folder is recorded for the next one.
+ */
+export class ClipIndex {
+    private previous: Map<string, ClipIndexRecord>;
+    private current: ClipIndexRecord[] = [];
+
+    constructor(public readonly rootKey: string, records: ClipIndexRecord[] = []) {
+        this.previous = new Map(records.map(record => [record.path.join('/'), record]));
+    }
+
+    /**
+     * Find the cached record for a folder if its fingerprint is unchanged
+     */
+    lookup(path: string[], fingerprint: string): ClipIndexRecord | undefined {
+        const record = this.previous.get(path.join('/'));
+        return record && record.fingerprint === fingerprint ? record : undefined;
+    }
+
+    record(record: ClipIndexRecord): void {
+        this.current.push(record);
+    }
+
+    get previousRecords(): ClipIndexRecord[] {
+        return Array.from(this.previous.values());
+    }
+
+    async save(): Promise<void> {
+        const stored: StoredClipIndex = {
+            rootKey: this.rootKey,
+            version: CLIP_INDEX_VERSION,
+            updatedAt: Date.now(),
+            records: this.current,
+        };
+        await storagePut(STORES.clipIndex, stored);
+    }
+}
+
+/**
+ * Load the persisted index for a root (empty if none or outdated)
+ */
+export async function loadClipIndex(rootKey: string): Promise<ClipIndex> {
+    const stored = await storageGet<StoredClipIndex>(STORES.clipIndex, rootKey);
+    const current = stored?.version === CLIP_INDEX_VERSION;
+    return new ClipIndex(rootKey, current ? stored.records : []);
+}
+
+/**
+ * Delete the persisted index of a root
+ */
+export async function deleteClipIndex(rootKey: string): Promise<void> {
+    await storageDelete(STORES.clipIndex, rootKey);
+}
+
+/**
+ * Compute a folder fingerprint from its file names, sizes and modification times
+ */
+export async function computeFolderFingerprint(
+    entries: [string, IFileSystemEntry][]
+): Promise<string> {
+    const parts: string[] = [];
+    for (const [name, entry] of entries) {
+        if (entry.kind !== 'file') continue;
+        const file = await (entry as IFileSystemFileEntry).getFile();
+        parts.push(`${name}:${file.size}:${file.lastModified}`);
+    }
+    parts.sort();
+
+    // FNV-1a keeps the stored fingerprint short for large flat folders
+    let hash = 0x811c9dc5;
+    const text = parts.join('|');
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${parts.length}-${(hash >>> 0).toString(16)}`;
+}
+
+/**
+ * Convert a scanned clip to an index record
+ */
+export function createIndexRecord(clip: ClipInfo, path: string[], fingerprint: string): ClipIndexRecord {
+    return {
+        path,
+        fingerprint,
+        name: clip.name,
+        category: clip.category,
+        event: clip.event,
+        thumbnail: clip.thumbnailHandle?.name ?? null,
+        cameras: Array.from(clip.cameras),
+        segments: clip.segments.map(segment => ({
+            timeStr: segment.timeStr,
+            files: Object.fromEntries(
+                Object.entries(segment.files).map(([camera, entry]) => [camera, entry!.name])
+            ) as Partial<Record<Camera, string>>,
+        })),
+        timestamp: clip.timestamp,
+    };
+}
+
+/**
+ * Rebuild a ClipInfo from an index record, resolving file names to entries
+ */
+export function restoreClipInfo(
+    record: ClipIndexRecord,
+    handle: IFileSystemDirectoryEntry,
+    resolveFile: (name: string) => IFileSystemFileEntry | undefined
+): ClipInfo | null {
+    const segments: Segment[] = [];
+    for (const segment of record.segments) {
+        const files: Segment['files'] = {};
+        for (const [camera, fileName] of Object.entries(segment.files)) {
+            const entry = fileName ? resolveFile(fileName) : undefined;
+            if (!entry) return null;
+            files[camera as Camera] = entry;
+        }
+        segments.push({ timeStr: segment.timeStr, files });
+    }
+
+    return {
+        name: record.name,
+        handle,
+        path: record.path,
+        category: record.category,
+        segments,
+        event: record.event,
+        thumbnailHandle: record.thumbnail ? resolveFile(record.thumbnail) ?? null : null,
+        cameras: new Set(record.cameras),
+        timestamp: record.timestamp,
+    };
+}
+
+/**
+ * Build clips straight from the index without touching the file system.
+ * Handles resolve lazily by path the first time a file is opened.
+ */
+export function clipsFromIndex(
+    index: ClipIndex,
+    root: IFileSystemDirectoryEntry,
+    sessionGapSeconds?: number
+): ClipsByCategory | null {
+    const records = index.previousRecords;
+    if (records.length === 0) return null;
+
+    const clips: ClipsByCategory = {
+        SavedClips: [],
+        SentryClips: [],
+        RecentClips: [],
+        TeslaTrackMode: [],
+    };
+
+    for (const record of records) {
+        const directory = new PathFileSystemDirectoryEntry(root, record.path);
+        const clip = restoreClipInfo(
+            record,
+            directory,
+            (name) => new PathFileSystemFileEntry(directory, name)
+        );
+        if (clip && record.category === 'RecentClips') {
+            clips.RecentClips.push(...splitIntoSessions(clip, sessionGapSeconds));
+        } else if (clip) {
+            clips[record.category].push(clip);
+        }
+    }
+
+    for (const category of Object.keys(clips) as ClipCategory[]) {
+        clips[category].sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    return clips;
+}
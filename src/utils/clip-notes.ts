@@ -0,0 +1,119 @@
+/**
+ * Clip Notes
+ *
+ * User triage metadata per clip (star, tags, free-form notes), persisted in
+ * IndexedDB. Notes are keyed by library root + category + clip name so they
+ * survive rescans and reopening the same drive. RecentClips sessions are
+ * renamed as the car overwrites their oldest segments, so their notes also
+ * record the segment times they were written for and follow those.
+ */
+
+import type { ClipInfo } from '../types';
+import { getClipKey } from './clip-diff';
+import { getSourceRootKey, type LibrarySource } from './library-sources';
+import { STORES, storageDelete, storageGetAll, storagePut } from './storage';
+
+export interface ClipNote {
+    key: string;
+    starred: boolean;
+    tags: string[];
+    notes: string;
+    updatedAt: number;
+    // RecentClips only: first and last segment times the note was written for
+    span?: [string, string];
+}
+
+export type ClipNoteChanges = Partial<Pick<ClipNote, 'starred' | 'tags' | 'notes'>>;
+
+// Offered in the tag editor before the library has tags of its own
+export const DEFAULT_CLIP_TAGS = ['insurance', 'reviewed', 'ignore'];
+
+function getNoteKeyPrefix(clip: ClipInfo, sources: LibrarySource[]): string {
+    const source = sources.find(s => s.id === clip.source);
+    const rootKey = source ? getSourceRootKey(source) : '';
+    return `${rootKey}|${clip.category}/`;
+}
+
+/**
+ * Storage key for a new note on a clip
+ */
+export function getClipNoteKey(clip: ClipInfo, sources: LibrarySource[]): string {
+    return getNoteKeyPrefix(clip, sources) + clip.name;
+}
+
+/**
+ * Segment times covered by a RecentClips session
+ */
+export function getClipNoteSpan(clip: ClipInfo): [string, string] | undefined {
+    if (clip.category !== 'RecentClips' || clip.segments.length === 0) return undefined;
+    return [clip.segments[0].timeStr, clip.segments[clip.segments.length - 1].timeStr];
+}
+
+/**
+ * Give RecentClips notes to sessions renamed since the note was written, by
+ * rollover or a new session gap. A session keeps a note written under its
+ * own name; any other note goes to the one session holding the most
+ * segments of its span. Returns notes by clip key.
+ */
+export function matchSessionNotes(
+    notes: Map<string, ClipNote>,
+    sessions: ClipInfo[],
+    sources: LibrarySource[]
+): Map<string, ClipNote> {
+    const matched = new Map<string, ClipNote>();
+    const unmatched: ClipInfo[] = [];
+    const claimed = new Set<string>();
+
+    for (const session of sessions) {
+        const exact = notes.get(getClipNoteKey(session, sources));
+        if (exact) {
+            matched.set(getClipKey(session), exact);
+            claimed.add(exact.key);
+        } else {
+            unmatched.push(session);
+        }
+    }
+
+    for (const note of notes.values()) {
+        if (!note.span || claimed.has(note.key)) continue;
+        const [from, to] = note.span;
+
+        let best: ClipInfo | null = null;
+        let bestCount = 0;
+        for (const session of unmatched) {
+            if (!note.key.startsWith(getNoteKeyPrefix(session, sources))) continue;
+            // Segment times sort chronologically as strings
+            const count = session.segments.filter(segment => segment.timeStr >= from && segment.timeStr <= to).length;
+            if (count > bestCount && !matched.has(getClipKey(session))) {
+                best = session;
+                bestCount = count;
+            }
+        }
+        if (best) matched.set(getClipKey(best), note);
+    }
+
+    return matched;
+}
+
+export function normalizeTag(tag: string): string {
+    return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function isNoteEmpty(note: ClipNote): boolean {
+    return !note.starred && note.tags.length === 0 && note.notes.trim() === '';
+}
+
+export function loadClipNotes(): Promise<ClipNote[]> {
+    return storageGetAll<ClipNote>(STORES.clipNotes);
+}
+
+/**
+ * Persist a note, removing the record once nothing is left in it
+ */
+export async function saveClipNote(note: ClipNote): Promise<void> {
+    if (isNoteEmpty(note)) {
+        await storageDelete(STORES.clipNotes, note.key);
+    } else {
+        await storagePut(STORES.clipNotes, note);
+    }
+}
@@ -1,25 +1,72 @@
-import type { Camera, ClipInfo, ClipsByCategory, EventMetadata } from '../types';
-import type { IFileSystemDirectoryEntry, IFileSystemFileEntry } from '../types/file-system';
+import type { Camera, ClipCategory, ClipInfo, ClipsByCategory, EventMetadata } from '../types';
+import type { IFileSystemDirectoryEntry, IFileSystemEntry, IFileSystemFileEntry } from '../types/file-system';
 import { CLIP_CATEGORIES } from './constants';
 import { parseClipTimestamp } from './time-utils';
+import { type ClipIndex, computeFolderFingerprint, createIndexRecord, restoreClipInfo } from './clip-index';
+import { splitIntoSessions } from './clip-sessions';
+import { getEventCategory, parseEventMetadata } from './event-metadata';
+
+export interface ScanOptions {
+    // Previous index to reuse unchanged folders from; scanned folders are recorded into it
+    index?: ClipIndex;
+    // Gap between RecentClips segments that starts a new session (seconds)
+    sessionGapSeconds?: number;
+    // Called for folders recursive discovery could not use
+    onSkippedFolder?: (folder: SkippedFolder) => void;
+}
+
+export type SkipReason = 'no-videos' | 'unreadable' | 'too-deep';
+
+export interface SkippedFolder {
+    // Folder path relative to the selected root
+    path: string[];
+    reason: SkipReason;
+}
+
+// Dashcam segment file: YYYY-MM-DD_HH-MM-SS-camera.mp4
+const SEGMENT_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2})-(.+)\.mp4$/;
+
+// Event folder named after its start time
+const EVENT_FOLDER_PATTERN = /^\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}$/;
+
+// Recursive discovery stops descending below this many levels
+const MAX_DISCOVERY_DEPTH = 8;
+
+// Folders written by operating systems rather than the car or archiving tools
+const SYSTEM_FOLDERS = new Set(['System Volume Information', '$RECYCLE.BIN', '__MACOSX']);
 
 /**
  * Scan a TeslaCam root folder (or parent/child) for all clips
  */
 export async function scanClips(
-    rootHandle: IFileSystemDirectoryEntry
+    rootHandle: IFileSystemDirectoryEntry,
+    options: ScanOptions = {}
 ): Promise<ClipsByCategory> {
     const clips: ClipsByCategory = {
         SavedClips: [],
         SentryClips: [],
         RecentClips: [],
+        TeslaTrackMode: [],
     };
 
+    // Folder path relative to the selected root, used as the index key
+    let basePath: string[] = [];
+
     // Case 1: Driver selected a parent folder containing "TeslaCam"
     try {
         const teslaCamHandle = await rootHandle.getDirectoryHandle('TeslaCam');
+
+        // Track Mode sessions are saved next to TeslaCam rather than inside it
+        try {
+            const trackModeHandle = await rootHandle.getDirectoryHandle('TeslaTrackMode');
+            await scanTrackModeFolder(trackModeHandle, clips, ['TeslaTrackMode']);
+        } catch {
+            // No Track Mode recordings on this drive
+        }
+
         // If we found it, switch root to this folder and continue
         rootHandle = teslaCamHandle;
+        basePath = ['TeslaCam'];
     } catch {
         // "TeslaCam" not found, continue assuming we are at root or inside a category
     }
@@ -27,37 +74,145 @@ export async function scanClips(
     // Case 2: Driver selected a specific category folder (e.g. "SavedClips")
     if (CLIP_CATEGORIES.includes(rootHandle.name as any)) {
         const category = rootHandle.name as keyof ClipsByCategory;
-        await scanCategoryFolder(rootHandle, category, clips);
+        await scanCategoryFolder(rootHandle, category, clips, basePath, options);
         return clips;
     }
 
     // Case 3: Standard behavior (TeslaCam folder selected, or previously switched to)
+    let hasStandardLayout = false;
     for (const folder of CLIP_CATEGORIES) {
+        let folderHandle: IFileSystemDirectoryEntry;
+        try {
+            folderHandle = await rootHandle.getDirectoryHandle(folder);
+        } catch {
+            // Folder not found
+            continue;
+        }
+        hasStandardLayout = true;
         try {
-            const folderHandle = await rootHandle.getDirectoryHandle(folder);
-            await scanCategoryFolder(folderHandle, folder, clips);
+            await scanCategoryFolder(folderHandle, folder, clips, [...basePath, folder], options);
         } catch {
-            // Folder not found or empty
+            // Folder unreadable or empty
+        }
+    }
+
+    // Case 4: Renamed or reorganized archive (e.g. "2024/01/15/SentryClips/...")
+    if (!hasStandardLayout) {
+        await discoverClips(rootHandle, basePath, clips, options);
+        for (const category of CLIP_CATEGORIES) {
+            clips[category].sort((a, b) => b.timestamp - a.timestamp);
         }
     }
 
     return clips;
 }
 
+/**
+ * Recursive discovery: treat every folder holding dashcam segment files as a clip,
+ * whatever it is called and however deep it sits. The category comes from the
+ * nearest category-named ancestor, else from event.json, else from the folder name.
+ */
+async function discoverClips(
+    handle: IFileSystemDirectoryEntry,
+    path: string[],
+    clips: ClipsByCategory,
+    options: ScanOptions,
+    depth = 0
+) {
+    if (depth > MAX_DISCOVERY_DEPTH) {
+        options.onSkippedFolder?.({ path, reason: 'too-deep' });
+        return;
+    }
+
+    const subfolders: [string, IFileSystemDirectoryEntry][] = [];
+    let hasFiles = false;
+    let hasSegments = false;
+    try {
+        for await (const [name, entry] of handle.entries()) {
+            if (entry.kind === 'directory') {
+                if (!name.startsWith('.') && !SYSTEM_FOLDERS.has(name)) {
+                    subfolders.push([name, entry as IFileSystemDirectoryEntry]);
+                }
+            } else {
+                hasFiles = true;
+                hasSegments ||= SEGMENT_FILE_PATTERN.test(name);
+            }
+        }
+    } catch {
+        options.onSkippedFolder?.({ path, reason: 'unreadable' });
+        return;
+    }
+
+    const pathCategory = findPathCategory(path);
+    if (pathCategory === 'TeslaTrackMode') {
+        await scanTrackModeFolder(handle, clips, path);
+        return;
+    }
+
+    if (hasSegments) {
+        const name = path[path.length - 1] ?? handle.name;
+        const clipInfo = await scanClipFolder(handle, name, pathCategory, path, options);
+        if (clipInfo?.category === 'RecentClips') {
+            clips.RecentClips.push(...splitIntoSessions(clipInfo, options.sessionGapSeconds));
+        } else if (clipInfo) {
+            clips[clipInfo.category].push(clipInfo);
+        }
+    } else if (hasFiles && subfolders.length === 0) {
+        options.onSkippedFolder?.({ path, reason: 'no-videos' });
+    }
+
+    for (const [name, subfolder] of subfolders) {
+        await discoverClips(subfolder, [...path, name], clips, options, depth + 1);
+    }
+}
+
+/**
+ * Category named by the nearest ancestor folder, matched case-insensitively
+ */
+function findPathCategory(path: string[]): ClipCategory | null {
+    for (let i = path.length - 1; i >= 0; i--) {
+        const folder = path[i].toLowerCase();
+        const category = CLIP_CATEGORIES.find(c => c.toLowerCase() === folder);
+        if (category) return category;
+    }
+    return null;
+}
+
+/**
+ * Category of a discovered folder without a category-named ancestor
+ */
+function inferCategory(name: string, event: EventMetadata | null): ClipCategory {
+    if (event?.reason) {
+        return getEventCategory(event);
+    }
+    // Loose segments without an event are a RecentClips-style recording
+    return event || EVENT_FOLDER_PATTERN.test(name) ? 'SavedClips' : 'RecentClips';
+}
+
 async function scanCategoryFolder(
     folderHandle: IFileSystemDirectoryEntry,
     category: keyof ClipsByCategory,
-    clips: ClipsByCategory
+    clips: ClipsByCategory,
+    path: string[],
+    options: ScanOptions
 ) {
+    if (category === 'TeslaTrackMode') {
+        await scanTrackModeFolder(folderHandle, clips, path);
+        return;
+    }
+
     // Special handling for RecentClips which has a flat structure (no subfolders per event)
     if (category === 'RecentClips') {
         const clipInfo = await scanClipFolder(
             folderHandle,
             'Recent Clips',
-            category
+            category,
+            path,
+            options
         );
         if (clipInfo) {
-            clips[category].push(clipInfo);
+            clips[category].push(...splitIntoSessions(clipInfo, options.sessionGapSeconds));
+            clips[category].sort((a, b) => b.timestamp - a.timestamp);
         }
         return;
     }
@@ -67,7 +222,9 @@ async function scanCategoryFolder(
             const clipInfo = await scanClipFolder(
                 handle as IFileSystemDirectoryEntry,
                 name,
-                category
+                category,
+                [...path, name],
+                options
             );
             if (clipInfo) {
                 clips[category].push(clipInfo);
@@ -80,17 +237,44 @@ async function scanCategoryFolder(
 }
 
 /**
- * Scan a single clip folder for video files and metadata
+ * Scan a single clip folder for video files and metadata.
+ * A null category is inferred from event.json and the folder name.
  */
 async function scanClipFolder(
     handle: IFileSystemDirectoryEntry,
     name: string,
-    category: ClipsByCategory[keyof ClipsByCategory][number]['category']
+    category: ClipCategory | null,
+    path: string[],
+    options: ScanOptions
 ): Promise<ClipInfo | null> {
+    const listing: [string, IFileSystemEntry][] = [];
+    for await (const entry of handle.entries()) {
+        listing.push(entry);
+    }
+
+    // Reuse cached metadata when the folder's files are unchanged
+    let fingerprint: string | null = null;
+    if (options.index) {
+        fingerprint = await computeFolderFingerprint(listing);
+        const cached = options.index.lookup(path, fingerprint);
+        if (cached) {
+            const files = new Map(listing);
+            const restored = restoreClipInfo(cached, handle, (fileName) => {
+                const entry = files.get(fileName);
+                return entry?.kind === 'file' ? entry as IFileSystemFileEntry : undefined;
+            });
+            if (restored) {
+                options.index.record(cached);
+                return restored;
+            }
+        }
+    }
+
     const clipInfo: ClipInfo = {
         name,
         handle,
-        category,
+        path,
+        category: category ?? 'SavedClips',
         segments: [],
         event: null,
         thumbnailHandle: null,
@@ -100,13 +284,13 @@ async function scanClipFolder(
 
     const videoFiles: Record<string, Partial<Record<Camera, IFileSystemFileEntry>>> = {};
 
-    for await (const [fileName, fileHandle] of handle.entries()) {
+    for (const [fileName, fileHandle] of listing) {
         if (fileHandle.kind !== 'file') continue;
 
         if (fileName === 'event.json') {
             try {
                 const file = await (fileHandle as IFileSystemFileEntry).getFile();
-                clipInfo.event = JSON.parse(await file.text()) as EventMetadata;
+                clipInfo.event = parseEventMetadata(JSON.parse(await file.text()));
             } catch (err) {
                 console.warn('Error reading event.json:', err);
             }
@@ -114,7 +298,7 @@ async function scanClipFolder(
             clipInfo.thumbnailHandle = fileHandle as IFileSystemFileEntry;
         } else if (fileName.endsWith('.mp4')) {
             // Parse filename: YYYY-MM-DD_HH-MM-SS-camera.mp4
-            const match = fileName.match(/^(\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2})-(.+)\.mp4$/);
+            const match = fileName.match(SEGMENT_FILE_PATTERN);
             if (match) {
                 const [, timeStr, camera] = match;
                 if (!videoFiles[timeStr]) {
@@ -139,6 +323,10 @@ async function scanClipFolder(
         return null;
     }
 
+    if (category === null) {
+        clipInfo.category = inferCategory(name, clipInfo.event);
+    }
+
     // Parse timestamp from folder name
     let timestamp = parseClipTimestamp(name);
 
@@ -149,9 +337,75 @@ async function scanClipFolder(
     }
     clipInfo.timestamp = timestamp;
 
+    if (options.index && fingerprint !== null) {
+        options.index.record(createIndexRecord(clipInfo, path, fingerprint));
+    }
+
     return clipInfo;
 }
 
+/**
+ * Scan a TeslaTrackMode folder: every video is one session, paired with the
+ * CSV of the same name. Sessions are not indexed, since listing the folder
+ * is all a scan needs.
+ */
+async function scanTrackModeFolder(
+    folderHandle: IFileSystemDirectoryEntry,
+    clips: ClipsByCategory,
+    path: string[]
+) {
+    const videos = new Map<string, IFileSystemFileEntry>();
+    const csvFiles = new Map<string, IFileSystemFileEntry>();
+
+    for await (const [name, handle] of folderHandle.entries()) {
+        if (handle.kind === 'directory') {
+            // Some firmware versions write one folder per session
+            await scanTrackModeFolder(handle as IFileSystemDirectoryEntry, clips, [...path, name]);
+            continue;
+        }
+        const match = name.match(/^(.+)\.(mp4|csv)$/i);
+        if (!match) continue;
+        const [, stem, extension] = match;
+        (extension.toLowerCase() === 'mp4' ? videos : csvFiles).set(stem, handle as IFileSystemFileEntry);
+    }
+
+    for (const [stem, video] of videos) {
+        let timeStr = stem.match(/\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}/)?.[0];
+        if (!timeStr) {
+            // Name carries no time: use when the recording was written
+            try {
+                timeStr = formatFileTime((await video.getFile()).lastModified);
+            } catch {
+                continue;
+            }
+        }
+
+        clips.TeslaTrackMode.push({
+            name: timeStr,
+            handle: folderHandle,
+            category: 'TeslaTrackMode',
+            segments: [{ timeStr, files: { front: video } }],
+            event: null,
+            thumbnailHandle: null,
+            cameras: new Set<Camera>(['front']),
+            timestamp: parseClipTimestamp(timeStr),
+            trackDataHandle: csvFiles.get(stem) ?? null,
+        });
+    }
+
+    clips.TeslaTrackMode.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Format a local time in Tesla's file naming style ("2024-01-15_14-30-25")
+ */
+function formatFileTime(time: number): string {
+    const date = new Date(time);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+        + `_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+}
+
 /**
  * Load a video file and return its object URL
  */
@@ -0,0 +1,90 @@
+/**
+ * RecentClips Sessions
+ *
+ * RecentClips is a flat folder of one-minute segments. Splits it into drive
+ * sessions wherever consecutive segments are further apart than a threshold.
+ */
+
+import type { Camera, ClipInfo, Segment } from '../types';
+import { RECENT_SESSION_GAP_SECONDS } from './constants';
+import { parseClipTimestamp } from './time-utils';
+
+/**
+ * Split a flat RecentClips clip into one clip per drive session.
+ * Each session is named after its first segment, so its name stays stable
+ * while new segments are appended.
+ */
+export function splitIntoSessions(
+    clip: ClipInfo,
+    gapSeconds: number = RECENT_SESSION_GAP_SECONDS
+): ClipInfo[] {
+    const groups: Segment[][] = [];
+    let previousTime = 0;
+
+    for (const segment of clip.segments) {
+        const time = parseClipTimestamp(segment.timeStr);
+        const lastGroup = groups[groups.length - 1];
+
+        // Gap is measured start-to-start, so it includes the previous segment's own length
+        if (!lastGroup || time === 0 || previousTime === 0 || time - previousTime > gapSeconds * 1000) {
+            groups.push([segment]);
+        } else {
+            lastGroup.push(segment);
+        }
+        previousTime = time;
+    }
+
+    return groups.map((segments) => {
+        const cameras = new Set<Camera>();
+        for (const segment of segments) {
+            for (const camera of Object.keys(segment.files)) {
+                cameras.add(camera as Camera);
+            }
+        }
+
+        return {
+            ...clip,
+            name: segments[0].timeStr,
+            segments,
+            cameras,
+            timestamp: parseClipTimestamp(segments[0].timeStr),
+        };
+    });
+}
+
+/**
+ * Re-split already split RecentClips sessions with a different gap, without
+ * rescanning. Sessions of the same folder are joined back together first;
+ * sessions that come out unchanged keep their object identity.
+ */
+export function resplitSessions(sessions: ClipInfo[], gapSeconds: number): ClipInfo[] {
+    const folders = new Map<string, ClipInfo[]>();
+    for (const session of sessions) {
+        // Discovery can find several folders with the same name in one source
+        const key = `${session.source ?? ''}:${(session.path ?? [session.handle.name]).join('/')}`;
+        const folder = folders.get(key);
+        if (folder) {
+            folder.push(session);
+        } else {
+            folders.set(key, [session]);
+        }
+    }
+
+    const result: ClipInfo[] = [];
+    for (const folder of folders.values()) {
+        const previousByName = new Map(folder.map(session => [session.name, session]));
+        const segments = folder
+            .flatMap(session => session.segments)
+            .sort((a, b) => a.timeStr.localeCompare(b.timeStr));
+
+        for (const session of splitIntoSessions({ ...folder[0], segments }, gapSeconds)) {
+            const previous = previousByName.get(session.name);
+            const unchanged = previous
+                && previous.segments.length === session.segments.length
+                && previous.segments.every((segment, i) => segment === session.segments[i]);
+            result.push(unchanged ? previous : session);
+        }
+    }
+
+    return result.sort((a, b) => b.timestamp - a.timestamp);
+}
@@ -23,6 +23,7 @@ export const CLIP_CATEGORIES: ClipCategory[] = [
     'SavedClips',
     'SentryClips',
     'RecentClips',
+    'TeslaTrackMode',
 ];
 
 // Human-readable labels for event reasons
@@ -78,3 +79,7 @@ export const STALL_THRESHOLD_FRAMES = 30; // ~500ms at 60Hz
 
 // Default segment duration when metadata cannot be read (seconds)
 export const DEFAULT_SEGMENT_DURATION = 60;
+
+// Gap between consecutive RecentClips segment start times that begins a new drive session (seconds)
+// Segments are ~60s long, so anything well above that means recording stopped in between
+export const RECENT_SESSION_GAP_SECONDS = 5 * 60;
@@ -0,0 +1,69 @@
+/**
+ * event.json Parsing
+ *
+ * Tesla writes event.json with string values for every field, e.g.
+ * {"timestamp":"2024-01-15T14:30:25","city":"...","est_lat":"37.4","est_lon":"-122.1",
+ *  "reason":"sentry_aware_object_detection","camera":"5"}.
+ * Known fields are normalized; anything else is kept in `extra`.
+ */
+
+import type { Camera, ClipCategory, EventMetadata } from '../types';
+
+// Tesla's camera numbering in event.json (the three front cameras share one recording)
+const TESLA_CAMERA_IDS: Record<string, Camera> = {
+    '0': 'front',
+    '1': 'front',
+    '2': 'front',
+    '3': 'left_pillar',
+    '4': 'right_pillar',
+    '5': 'left_repeater',
+    '6': 'right_repeater',
+    '7': 'back',
+};
+
+const STRING_FIELDS = ['timestamp', 'city', 'street', 'reason'] as const;
+const KNOWN_FIELDS = new Set<string>([...STRING_FIELDS, 'est_lat', 'est_lon', 'latitude', 'longitude', 'camera']);
+
+function toNumber(value: unknown): number | undefined {
+    const number = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+export function parseEventMetadata(json: unknown): EventMetadata {
+    if (!json || typeof json !== 'object' || Array.isArray(json)) return {};
+    const raw = json as Record<string, unknown>;
+    const event: EventMetadata = {};
+
+    for (const field of STRING_FIELDS) {
+        if (raw[field] !== undefined && raw[field] !== null) {
+            event[field] = String(raw[field]);
+        }
+    }
+
+    const latitude = toNumber(raw.est_lat ?? raw.latitude);
+    const longitude = toNumber(raw.est_lon ?? raw.longitude);
+    if (latitude !== undefined && longitude !== undefined) {
+        event.latitude = latitude;
+        event.longitude = longitude;
+    }
+
+    if (raw.camera !== undefined && raw.camera !== null) {
+        event.cameraId = String(raw.camera);
+        const camera = TESLA_CAMERA_IDS[event.cameraId];
+        if (camera) event.camera = camera;
+    }
+
+    const extra = Object.entries(raw).filter(([key]) => !KNOWN_FIELDS.has(key));
+    if (extra.length > 0) {
+        event.extra = Object.fromEntries(extra);
+    }
+
+    return event;
+}
+
+/**
+ * Category folder the car files an event under, judged by its reason
+ */
+export function getEventCategory(event: EventMetadata): ClipCategory {
+    return event.reason?.startsWith('sentry') ? 'SentryClips' : 'SavedClips';
+}
@@ -3,6 +3,8 @@ import {
     IFileSystemEntry,
     IFileSystemFileEntry,
 } from '../types/file-system';
+import type { ClipCategory } from '../types';
+import { getEventCategory, parseEventMetadata } from './event-metadata';
 
 // --- Native File System Access API Adapters ---
 
@@ -29,6 +31,13 @@ export class NativeFileSystemDirectoryEntry implements IFileSystemDirectoryEntry
         return this.handle.name;
     }
 
+    /**
+     * Underlying File System Access API handle (can be persisted in IndexedDB)
+     */
+    get nativeHandle(): FileSystemDirectoryHandle {
+        return this.handle;
+    }
+
     async *entries(): AsyncIterableIterator<[string, IFileSystemEntry]> {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         for await (const [name, handle] of (this.handle as any).entries()) {
@@ -44,6 +53,11 @@ export class NativeFileSystemDirectoryEntry implements IFileSystemDirectoryEntry
         const handle = await this.handle.getDirectoryHandle(name);
         return new NativeFileSystemDirectoryEntry(handle);
     }
+
+    async getFileHandle(name: string): Promise<IFileSystemFileEntry> {
+        const handle = await this.handle.getFileHandle(name);
+        return new NativeFileSystemFileEntry(handle);
+    }
 }
 
 // --- Virtual File System (from <input type="file">) Adapters ---
@@ -68,8 +82,17 @@ export class VirtualFileSystemDirectoryEntry implements IFileSystemDirectoryEntr
 
     constructor(public name: string) { }
 
-    addEntry(entry: IFileSystemEntry) {
-        this._entries.set(entry.name, entry);
+    /**
+     * Add an entry, suffixing its name if another entry already uses it.
+     * Returns the name it was stored under.
+     */
+    addEntry(entry: IFileSystemEntry): string {
+        let name = entry.name;
+        for (let n = 2; this._entries.has(name); n++) {
+            name = `${entry.name} (${n})`;
+        }
+        this._entries.set(name, entry);
+        return name;
     }
 
     async *entries(): AsyncIterableIterator<[string, IFileSystemEntry]> {
@@ -85,6 +108,413 @@ export class VirtualFileSystemDirectoryEntry implements IFileSystemDirectoryEntr
         }
         throw new Error(`Directory not found: ${name}`);
     }
+
+    async getFileHandle(name: string): Promise<IFileSystemFileEntry> {
+        const entry = this._entries.get(name);
+        if (entry && entry.kind === 'file') {
+            return entry as IFileSystemFileEntry;
+        }
+        throw new Error(`File not found: ${name}`);
+    }
+}
+
+// --- Zip Archive Adapters ---
+
+// Zip record signatures
+const ZIP_EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// Compression methods we can serve
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATED = 8;
+
+// End of central directory record is 22 bytes plus an optional comment of up to 64KB
+const ZIP_EOCD_MIN_SIZE = 22;
+const ZIP_EOCD_MAX_SEARCH = ZIP_EOCD_MIN_SIZE + 0xffff;
+
+/**
+ * A single file record from the zip central directory
+ */
+interface ZipCentralEntry {
+    path: string;
+    method: number;
+    encrypted: boolean;
+    compressedSize: number;
+    uncompressedSize: number;
+    localHeaderOffset: number;
+    lastModified: number;
+}
+
+/**
+ * Read a little-endian 64-bit unsigned integer as Number (safe up to 2^53)
+ */
+function readZipUint64(view: DataView, offset: number): number {
+    const low = view.getUint32(offset, true);
+    const high = view.getUint32(offset + 4, true);
+    return high * 0x100000000 + low;
+}
+
+/**
+ * Convert MS-DOS date/time fields to a JS timestamp (local time)
+ */
+function dosDateTimeToTimestamp(date: number, time: number): number {
+    return new Date(
+        ((date >> 9) & 0x7f) + 1980,
+        ((date >> 5) & 0x0f) - 1,
+        date & 0x1f,
+        (time >> 11) & 0x1f,
+        (time >> 5) & 0x3f,
+        (time & 0x1f) * 2
+    ).getTime();
+}
+
+async function readZipRange(archive: Blob, start: number, end: number): Promise<DataView> {
+    const buffer = await archive.slice(start, end).arrayBuffer();
+    return new DataView(buffer);
+}
+
+/**
+ * Random-access reader for a zip archive backed by a Blob.
+ *
+ * Only the end-of-archive records and the central directory are read up front;
+ * file data is sliced out of the archive on demand when an entry is opened.
+ */
+class ZipArchiveReader {
+    private entriesPromise: Promise<ZipCentralEntry[]> | null = null;
+
+    constructor(public readonly archive: Blob) { }
+
+    /**
+     * Read (once) and return all file records from the central directory
+     */
+    getEntries(): Promise<ZipCentralEntry[]> {
+        if (!this.entriesPromise) {
+            this.entriesPromise = this.readCentralDirectory();
+        }
+        return this.entriesPromise;
+    }
+
+    private async readCentralDirectory(): Promise<ZipCentralEntry[]> {
+        const archiveSize = this.archive.size;
+        if (archiveSize < ZIP_EOCD_MIN_SIZE) {
+            throw new Error('Not a zip archive: file is too small');
+        }
+
+        // Locate the end of central directory record by scanning backwards
+        const tailStart = Math.max(0, archiveSize - ZIP_EOCD_MAX_SEARCH);
+        const tail = await readZipRange(this.archive, tailStart, archiveSize);
+        let eocdPos = -1;
+        for (let pos = tail.byteLength - ZIP_EOCD_MIN_SIZE; pos >= 0; pos--) {
+            if (tail.getUint32(pos, true) === ZIP_EOCD_SIGNATURE) {
+                eocdPos = pos;
+                break;
+            }
+        }
+
+        if (eocdPos === -1) {
+            throw new Error('Not a zip archive: end of central directory not found');
+        }
+
+        let entryCount = tail.getUint16(eocdPos + 10, true);
+        let directorySize = tail.getUint32(eocdPos + 12, true);
+        let directoryOffset = tail.getUint32(eocdPos + 16, true);
+
+        // ZIP64: the real values live in the zip64 end of central directory record
+        if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+            const locatorPos = eocdPos - 20;
+            if (locatorPos < 0 || tail.getUint32(locatorPos, true) !== ZIP64_EOCD_LOCATOR_SIGNATURE) {
+                throw new Error('Invalid zip archive: ZIP64 locator not found');
+            }
+
+            const zip64Offset = readZipUint64(tail, locatorPos + 8);
+            const zip64 = await readZipRange(this.archive, zip64Offset, zip64Offset + 56);
+            if (zip64.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+                throw new Error('Invalid zip archive: ZIP64 end of central directory not found');
+            }
+
+            entryCount = readZipUint64(zip64, 32);
+            directorySize = readZipUint64(zip64, 40);
+            directoryOffset = readZipUint64(zip64, 48);
+        }
+
+        const directory = await readZipRange(
+            this.archive,
+            directoryOffset,
+            directoryOffset + directorySize
+        );
+        const decoder = new TextDecoder('utf-8');
+        const entries: ZipCentralEntry[] = [];
+        let pos = 0;
+
+        for (let i = 0; i < entryCount && pos + 46 <= directory.byteLength; i++) {
+            if (directory.getUint32(pos, true) !== ZIP_CENTRAL_HEADER_SIGNATURE) {
+                throw new Error('Invalid zip archive: corrupt central directory');
+            }
+
+            const flags = directory.getUint16(pos + 8, true);
+            const method = directory.getUint16(pos + 10, true);
+            const modTime = directory.getUint16(pos + 12, true);
+            const modDate = directory.getUint16(pos + 14, true);
+            let compressedSize = directory.getUint32(pos + 20, true);
+            let uncompressedSize = directory.getUint32(pos + 24, true);
+            const nameLength = directory.getUint16(pos + 28, true);
+            const extraLength = directory.getUint16(pos + 30, true);
+            const commentLength = directory.getUint16(pos + 32, true);
+            let localHeaderOffset = directory.getUint32(pos + 42, true);
+
+            const nameBytes = new Uint8Array(
+                directory.buffer,
+                directory.byteOffset + pos + 46,
+                nameLength
+            );
+            const path = decoder.decode(nameBytes);
+
+            // ZIP64 extended information extra field (header ID 0x0001)
+            let extraPos = pos + 46 + nameLength;
+            const extraEnd = extraPos + extraLength;
+            while (extraPos + 4 <= extraEnd) {
+                const headerId = directory.getUint16(extraPos, true);
+                const dataSize = directory.getUint16(extraPos + 2, true);
+                if (headerId === 0x0001) {
+                    let fieldPos = extraPos + 4;
+                    if (uncompressedSize === 0xffffffff) {
+                        uncompressedSize = readZipUint64(directory, fieldPos);
+                        fieldPos += 8;
+                    }
+                    if (compressedSize === 0xffffffff) {
+                        compressedSize = readZipUint64(directory, fieldPos);
+                        fieldPos += 8;
+                    }
+                    if (localHeaderOffset === 0xffffffff) {
+                        localHeaderOffset = readZipUint64(directory, fieldPos);
+                    }
+                }
+                extraPos += 4 + dataSize;
+            }
+
+            entries.push({
+                path,
+                method,
+                encrypted: (flags & 0x1) !== 0,
+                compressedSize,
+                uncompressedSize,
+                localHeaderOffset,
+                lastModified: dosDateTimeToTimestamp(modDate, modTime),
+            });
+
+            pos += 46 + nameLength + extraLength + commentLength;
+        }
+
+        return entries;
+    }
+
+    /**
+     * Open an entry's contents as a File
+     */
+    async openEntry(entry: ZipCentralEntry, name: string): Promise<File> {
+        if (entry.encrypted) {
+            throw new Error(`Encrypted zip entries are not supported: ${entry.path}`);
+        }
+
+        // The local header repeats name/extra fields with possibly different lengths
+        const header = await readZipRange(
+            this.archive,
+            entry.localHeaderOffset,
+            entry.localHeaderOffset + 30
+        );
+        if (header.getUint32(0, true) !== ZIP_LOCAL_HEADER_SIGNATURE) {
+            throw new Error(`Invalid zip archive: corrupt local header for ${entry.path}`);
+        }
+
+        const dataStart = entry.localHeaderOffset + 30
+            + header.getUint16(26, true)
+            + header.getUint16(28, true);
+        const data = this.archive.slice(dataStart, dataStart + entry.compressedSize);
+
+        switch (entry.method) {
+            case ZIP_METHOD_STORED:
+                return new File([data], name, { lastModified: entry.lastModified });
+
+            case ZIP_METHOD_DEFLATED: {
+                const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+                const inflated = await new Response(stream).blob();
+                return new File([inflated], name, { lastModified: entry.lastModified });
+            }
+
+            default:
+                throw new Error(`Unsupported zip compression method ${entry.method}: ${entry.path}`);
+        }
+    }
+}
+
+export class ZipFileSystemFileEntry implements IFileSystemFileEntry {
+    kind: 'file' = 'file';
+
+    constructor(
+        private reader: ZipArchiveReader,
+        private entry: ZipCentralEntry,
+        public name: string
+    ) { }
+
+    /**
+     * Uncompressed size, available without reading the entry
+     */
+    get size(): number {
+        return this.entry.uncompressedSize;
+    }
+
+    async getFile(): Promise<File> {
+        return this.reader.openEntry(this.entry, this.name);
+    }
+}
+
+export class ZipFileSystemDirectoryEntry implements IFileSystemDirectoryEntry {
+    kind: 'directory' = 'directory';
+    private _entries: Map<string, IFileSystemEntry> | null = null;
+
+    /**
+     * @param reader Shared archive reader
+     * @param name Directory name
+     * @param prefix Path of this directory inside the archive ('' for the root, otherwise ending in '/')
+     */
+    constructor(
+        private reader: ZipArchiveReader,
+        public name: string,
+        private prefix: string = ''
+    ) { }
+
+    /**
+     * Build the direct children of this directory from the central directory
+     */
+    private async getChildren(): Promise<Map<string, IFileSystemEntry>> {
+        if (this._entries) {
+            return this._entries;
+        }
+
+        const children = new Map<string, IFileSystemEntry>();
+        for (const entry of await this.reader.getEntries()) {
+            if (!entry.path.startsWith(this.prefix) || entry.path === this.prefix) continue;
+
+            const relativePath = entry.path.slice(this.prefix.length);
+            const slashIndex = relativePath.indexOf('/');
+
+            if (slashIndex === -1) {
+                children.set(relativePath, new ZipFileSystemFileEntry(this.reader, entry, relativePath));
+            } else {
+                // Directories are often implied by file paths without their own record
+                const dirName = relativePath.slice(0, slashIndex);
+                if (!children.has(dirName)) {
+                    children.set(
+                        dirName,
+                        new ZipFileSystemDirectoryEntry(this.reader, dirName, `${this.prefix}${dirName}/`)
+                    );
+                }
+            }
+        }
+
+        this._entries = children;
+        return children;
+    }
+
+    async *entries(): AsyncIterableIterator<[string, IFileSystemEntry]> {
+        for (const entry of (await this.getChildren()).entries()) {
+            yield entry;
+        }
+    }
+
+    async getDirectoryHandle(name: string): Promise<IFileSystemDirectoryEntry> {
+        const entry = (await this.getChildren()).get(name);
+        if (entry && entry.kind === 'directory') {
+            return entry as IFileSystemDirectoryEntry;
+        }
+        throw new Error(`Directory not found: ${name}`);
+    }
+
+    async getFileHandle(name: string): Promise<IFileSystemFileEntry> {
+        const entry = (await this.getChildren()).get(name);
+        if (entry && entry.kind === 'file') {
+            return entry as IFileSystemFileEntry;
+        }
+        throw new Error(`File not found: ${name}`);
+    }
+}
+
+/**
+ * Creates a directory structure backed by a zip archive, without extracting it.
+ *
+ * The central directory is validated here; entry data is only read when a
+ * file entry is opened.
+ */
+export async function createZipFileSystem(archive: File): Promise<IFileSystemDirectoryEntry> {
+    const reader = new ZipArchiveReader(archive);
+    const entries = await reader.getEntries();
+
+    if (!entries.some(entry => isTeslaCamFile(entry.path.split('/').pop() || ''))) {
+        throw new Error('No TeslaCam video files found in the selected archive');
+    }
+
+    const rootName = archive.name.replace(/\.zip$/i, '') || 'root';
+    return new ZipFileSystemDirectoryEntry(reader, rootName);
+}
+
+// --- Path-resolved Adapters ---
+
+/**
+ * Directory addressed by its path below a root, resolved on first use.
+ * Used to rebuild clip handles from a persisted index without walking the tree.
+ */
+export class PathFileSystemDirectoryEntry implements IFileSystemDirectoryEntry {
+    kind: 'directory' = 'directory';
+    private resolved: Promise<IFileSystemDirectoryEntry> | null = null;
+
+    constructor(private root: IFileSystemDirectoryEntry, private path: string[]) { }
+
+    get name(): string {
+        return this.path.length > 0 ? this.path[this.path.length - 1] : this.root.name;
+    }
+
+    resolve(): Promise<IFileSystemDirectoryEntry> {
+        if (!this.resolved) {
+            this.resolved = this.path.reduce<Promise<IFileSystemDirectoryEntry>>(
+                async (parent, part) => (await parent).getDirectoryHandle(part),
+                Promise.resolve(this.root)
+            );
+            // Allow a retry after a transient failure
+            this.resolved.catch(() => {
+                this.resolved = null;
+            });
+        }
+        return this.resolved;
+    }
+
+    async *entries(): AsyncIterableIterator<[string, IFileSystemEntry]> {
+        yield* (await this.resolve()).entries();
+    }
+
+    async getDirectoryHandle(name: string): Promise<IFileSystemDirectoryEntry> {
+        return (await this.resolve()).getDirectoryHandle(name);
+    }
+
+    async getFileHandle(name: string): Promise<IFileSystemFileEntry> {
+        return (await this.resolve()).getFileHandle(name);
+    }
+}
+
+/**
+ * File addressed by name inside a path-resolved directory
+ */
+export class PathFileSystemFileEntry implements IFileSystemFileEntry {
+    kind: 'file' = 'file';
+
+    constructor(private directory: PathFileSystemDirectoryEntry, public name: string) { }
+
+    async getFile(): Promise<File> {
+        const handle = await this.directory.getFileHandle(this.name);
+        return handle.getFile();
+    }
 }
 
 // --- File Filtering and Progress ---
@@ -93,7 +523,8 @@ export class VirtualFileSystemDirectoryEntry implements IFileSystemDirectoryEntr
  * File extensions and names that are relevant to TeslaCam clips
  */
 const TESLACAM_FILE_PATTERNS = {
-    extensions: ['.mp4'],
+    // .csv: Track Mode lap data
+    extensions: ['.mp4', '.csv'],
     names: ['event.json', 'thumb.png'],
 };
 
@@ -185,13 +616,35 @@ export async function createVirtualFileSystemFromFiles(
     const firstPath = relevantFiles[0].webkitRelativePath;
     const rootName = firstPath ? firstPath.split('/')[0] : 'root';
 
+    return buildVirtualDirectoryTree(
+        relevantFiles.map(file => ({ file, pathParts: file.webkitRelativePath.split('/') })),
+        rootName,
+        onProgress
+    );
+}
+
+/**
+ * A file together with its path relative to the selection,
+ * where pathParts[0] is the root folder name and the last part is the file name
+ */
+interface RelativeFile {
+    file: File;
+    pathParts: string[];
+}
+
+/**
+ * Build a virtual directory tree from files with relative paths
+ */
+async function buildVirtualDirectoryTree(
+    files: RelativeFile[],
+    rootName: string,
+    onProgress?: (progress: FileProcessingProgress) => void
+): Promise<VirtualFileSystemDirectoryEntry> {
     const root = new VirtualFileSystemDirectoryEntry(rootName);
-    const totalRelevant = relevantFiles.length;
+    const totalRelevant = files.length;
 
-    // Phase 2: Build directory structure
     for (let i = 0; i < totalRelevant; i++) {
-        const file = relevantFiles[i];
-        const pathParts = file.webkitRelativePath.split('/');
+        const { file, pathParts } = files[i];
 
         // Start from root
         let currentDir = root;
@@ -235,3 +688,188 @@ export async function createVirtualFileSystemFromFiles(
 
     return root;
 }
+
+// --- Drag and Drop ---
+
+/**
+ * Name of the virtual root created when several items are dropped at once
+ */
+const DROP_ROOT_NAME = 'Dropped';
+
+/**
+ * Event folder names: YYYY-MM-DD_HH-MM-SS
+ */
+const EVENT_FOLDER_PATTERN = /^\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}$/;
+
+// getAsFileSystemHandle is a Chromium extension missing from the DOM typings
+type DataTransferItemWithHandle = DataTransferItem & {
+    getAsFileSystemHandle?: () => Promise<FileSystemHandle | null>;
+};
+
+/**
+ * Read all entries of a legacy directory entry (readEntries returns batches)
+ */
+async function readAllDirectoryEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader();
+    const result: FileSystemEntry[] = [];
+
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => {
+            reader.readEntries(resolve, reject);
+        });
+        if (batch.length === 0) break;
+        result.push(...batch);
+    }
+
+    return result;
+}
+
+function getLegacyFile(entry: FileSystemFileEntry): Promise<File> {
+    return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+/**
+ * Walk a legacy (webkitGetAsEntry) directory and collect TeslaCam-relevant files
+ */
+async function collectLegacyDirectoryFiles(
+    directory: FileSystemDirectoryEntry,
+    onProgress?: (progress: FileProcessingProgress) => void
+): Promise<RelativeFile[]> {
+    const collected: RelativeFile[] = [];
+    const pending: FileSystemDirectoryEntry[] = [directory];
+    // Strip everything above the dropped directory from fullPath
+    const baseDepth = directory.fullPath.split('/').filter(Boolean).length - 1;
+    let visited = 0;
+
+    while (pending.length > 0) {
+        const current = pending.pop()!;
+
+        for (const entry of await readAllDirectoryEntries(current)) {
+            if (entry.isDirectory) {
+                pending.push(entry as FileSystemDirectoryEntry);
+            } else if (entry.isFile && isTeslaCamFile(entry.name)) {
+                collected.push({
+                    file: await getLegacyFile(entry as FileSystemFileEntry),
+                    pathParts: entry.fullPath.split('/').filter(Boolean).slice(baseDepth),
+                });
+            }
+
+            visited++;
+            if (visited % BATCH_SIZE === 0) {
+                // Total is unknown while walking
+                onProgress?.({ processed: visited, total: 0, phase: 'filtering' });
+                await yieldToMain();
+            }
+        }
+    }
+
+    return collected;
+}
+
+/**
+ * Category folder for a dropped event folder, from the reason in its event.json
+ */
+async function getDroppedEventCategory(directory: IFileSystemDirectoryEntry): Promise<ClipCategory> {
+    try {
+        const file = await (await directory.getFileHandle('event.json')).getFile();
+        return getEventCategory(parseEventMetadata(JSON.parse(await file.text())));
+    } catch {
+        // No readable event.json; named like an event folder, so most likely a saved clip
+        return 'SavedClips';
+    }
+}
+
+/**
+ * Creates library roots from items dropped onto the page.
+ *
+ * Accepts TeslaCam folders (or their parent/category folders), event
+ * folders, or loose video files:
+ * - Each other folder becomes a root of its own, as if picked separately
+ * - Event folders are placed under a virtual "SavedClips" or "SentryClips",
+ *   following the reason in their event.json
+ * - Loose files are placed under a virtual "RecentClips" folder
+ *
+ * Must be called synchronously from the drop handler: the DataTransfer items
+ * are only readable until the event handler returns.
+ */
+export async function createFileSystemFromDataTransfer(
+    dataTransfer: DataTransfer,
+    onProgress?: (progress: FileProcessingProgress) => void
+): Promise<IFileSystemDirectoryEntry[]> {
+    // Capture handles/entries before the first await
+    const handlePromises: Promise<FileSystemHandle | null>[] = [];
+    const legacyEntries: FileSystemEntry[] = [];
+
+    for (const item of Array.from(dataTransfer.items) as DataTransferItemWithHandle[]) {
+        if (item.kind !== 'file') continue;
+
+        if (item.getAsFileSystemHandle) {
+            handlePromises.push(item.getAsFileSystemHandle());
+        } else {
+            const entry = item.webkitGetAsEntry();
+            if (entry) legacyEntries.push(entry);
+        }
+    }
+
+    const directories: IFileSystemDirectoryEntry[] = [];
+    const looseFiles: File[] = [];
+
+    for (const handle of await Promise.all(handlePromises)) {
+        if (!handle) continue;
+        if (handle.kind === 'directory') {
+            directories.push(new NativeFileSystemDirectoryEntry(handle as FileSystemDirectoryHandle));
+        } else {
+            looseFiles.push(await (handle as FileSystemFileHandle).getFile());
+        }
+    }
+
+    for (const entry of legacyEntries) {
+        if (entry.isDirectory) {
+            const files = await collectLegacyDirectoryFiles(entry as FileSystemDirectoryEntry, onProgress);
+            if (files.length > 0) {
+                directories.push(await buildVirtualDirectoryTree(files, entry.name, onProgress));
+            }
+        } else if (entry.isFile) {
+            looseFiles.push(await getLegacyFile(entry as FileSystemFileEntry));
+        }
+    }
+
+    const relevantFiles = looseFiles.filter(file => isTeslaCamFile(file.name));
+
+    if (directories.length === 0 && relevantFiles.length === 0) {
+        throw new Error('No TeslaCam video files found in the dropped items');
+    }
+
+    // Other folders are used directly, like picked folders; two dropped
+    // "TeslaCam" folders would otherwise shadow each other under one root
+    const roots = directories.filter(directory => !EVENT_FOLDER_PATTERN.test(directory.name));
+    const eventFolders = directories.filter(directory => EVENT_FOLDER_PATTERN.test(directory.name));
+    if (eventFolders.length === 0 && relevantFiles.length === 0) {
+        return roots;
+    }
+
+    const root = new VirtualFileSystemDirectoryEntry(DROP_ROOT_NAME);
+    const categoryFolders = new Map<ClipCategory, VirtualFileSystemDirectoryEntry>();
+
+    for (const directory of eventFolders) {
+        const category = await getDroppedEventCategory(directory);
+        let categoryFolder = categoryFolders.get(category);
+        if (!categoryFolder) {
+            categoryFolder = new VirtualFileSystemDirectoryEntry(category);
+            categoryFolders.set(category, categoryFolder);
+            root.addEntry(categoryFolder);
+        }
+        // Same-named events from different places are kept side by side
+        categoryFolder.addEntry(directory);
+    }
+
+    if (relevantFiles.length > 0) {
+        const recentClips = new VirtualFileSystemDirectoryEntry('RecentClips');
+        for (const file of relevantFiles) {
+            recentClips.addEntry(new VirtualFileSystemFileEntry(file));
+        }
+        root.addEntry(recentClips);
+    }
+
+    return [...roots, root];
+}
@@ -0,0 +1,173 @@
+/**
+ * Drive Integrity Checker
+ *
+ * Flags segments that will not play back cleanly: cameras missing from a
+ * segment, zero-byte files, MP4s without a moov atom (typically a drive pulled
+ * mid-write), and cameras whose durations disagree within a segment.
+ */
+
+import type { Camera, ClipInfo, ClipsByCategory, Segment } from '../types';
+import type { IFileSystemFileEntry } from '../types/file-system';
+import { CLIP_CATEGORIES } from './constants';
+import { getClipKey } from './clip-diff';
+import { readBoxPayload, readMovieDuration, readTopLevelBoxes } from './mp4-boxes';
+
+// Maximum spread between camera durations in one segment before it is flagged (seconds)
+export const DURATION_TOLERANCE_SECONDS = 1.5;
+
+export type IntegrityIssueType =
+    | 'missingCamera'
+    | 'emptyFile'
+    | 'missingMoov'
+    | 'durationMismatch'
+    | 'unreadable';
+
+export interface IntegrityIssue {
+    type: IntegrityIssueType;
+    segment: string;
+    camera?: Camera;
+    // Extra context, e.g. the measured durations
+    detail?: string;
+}
+
+export interface ClipIntegrityReport {
+    key: string;
+    clip: ClipInfo;
+    segmentCount: number;
+    issues: IntegrityIssue[];
+}
+
+export interface LibraryIntegrityReport {
+    clips: ClipIntegrityReport[];
+    checkedClips: number;
+    checkedSegments: number;
+    issueCounts: Record<IntegrityIssueType, number>;
+}
+
+export interface IntegrityProgress {
+    processed: number;
+    total: number;
+}
+
+/**
+ * Check one camera file, returning its duration when it is playable
+ */
+async function checkFile(
+    entry: IFileSystemFileEntry,
+    segment: Segment,
+    camera: Camera,
+    issues: IntegrityIssue[]
+): Promise<number | null> {
+    let file: File;
+    try {
+        file = await entry.getFile();
+    } catch (err) {
+        issues.push({ type: 'unreadable', segment: segment.timeStr, camera, detail: String(err) });
+        return null;
+    }
+
+    if (file.size === 0) {
+        issues.push({ type: 'emptyFile', segment: segment.timeStr, camera });
+        return null;
+    }
+
+    // Reads can still fail part way, e.g. NotReadableError on a failing drive
+    try {
+        const boxes = await readTopLevelBoxes(file);
+        const moov = boxes.find(box => box.type === 'moov');
+        if (!moov || moov.truncated) {
+            issues.push({ type: 'missingMoov', segment: segment.timeStr, camera });
+            return null;
+        }
+
+        return readMovieDuration(await readBoxPayload(file, moov));
+    } catch (err) {
+        issues.push({ type: 'unreadable', segment: segment.timeStr, camera, detail: String(err) });
+        return null;
+    }
+}
+
+/**
+ * Check every segment of a clip
+ */
+export async function checkClipIntegrity(clip: ClipInfo): Promise<ClipIntegrityReport> {
+    const issues: IntegrityIssue[] = [];
+
+    for (const segment of clip.segments) {
+        const durations: [Camera, number][] = [];
+
+        for (const camera of clip.cameras) {
+            const entry = segment.files[camera];
+            if (!entry) {
+                issues.push({ type: 'missingCamera', segment: segment.timeStr, camera });
+                continue;
+            }
+
+            const duration = await checkFile(entry, segment, camera, issues);
+            if (duration !== null) {
+                durations.push([camera, duration]);
+            }
+        }
+
+        if (durations.length > 1) {
+            const values = durations.map(([, duration]) => duration);
+            if (Math.max(...values) - Math.min(...values) > DURATION_TOLERANCE_SECONDS) {
+                issues.push({
+                    type: 'durationMismatch',
+                    segment: segment.timeStr,
+                    detail: durations.map(([camera, duration]) => `${camera} ${duration.toFixed(1)}s`).join(', '),
+                });
+            }
+        }
+    }
+
+    return {
+        key: getClipKey(clip),
+        clip,
+        segmentCount: clip.segments.length,
+        issues,
+    };
+}
+
+/**
+ * Check every clip in the library.
+ * Only clips with issues are kept in the report.
+ */
+export async function checkLibraryIntegrity(
+    clips: ClipsByCategory,
+    onProgress?: (progress: IntegrityProgress) => void,
+    signal?: AbortSignal
+): Promise<LibraryIntegrityReport> {
+    const allClips = CLIP_CATEGORIES.flatMap(category => clips[category]);
+    const report: LibraryIntegrityReport = {
+        clips: [],
+        checkedClips: 0,
+        checkedSegments: 0,
+        issueCounts: {
+            missingCamera: 0,
+            emptyFile: 0,
+            missingMoov: 0,
+            durationMismatch: 0,
+            unreadable: 0,
+        },
+    };
+
+    for (const clip of allClips) {
+        if (signal?.aborted) break;
+
+        const clipReport = await checkClipIntegrity(clip);
+        report.checkedClips++;
+        report.checkedSegments += clipReport.segmentCount;
+
+        if (clipReport.issues.length > 0) {
+            report.clips.push(clipReport);
+            for (const issue of clipReport.issues) {
+                report.issueCounts[issue.type]++;
+            }
+        }
+
+        onProgress?.({ processed: report.checkedClips, total: allClips.length });
+    }
+
+    return report;
+}
@@ -0,0 +1,107 @@
+/**
+ * Library Sources
+ *
+ * A library can combine several roots (USB drives, archived folders, zip
+ * files, dropped files). Each root is scanned on its own and the results are
+ * merged, skipping clips that were copied to more than one root.
+ */
+
+import type { ClipInfo, ClipsByCategory } from '../types';
+import type { IFileSystemDirectoryEntry } from '../types/file-system';
+import { CLIP_CATEGORIES } from './constants';
+
+export interface LibrarySource {
+    id: string;
+    // Display name shown next to clips
+    label: string;
+    root: IFileSystemDirectoryEntry;
+    // Persistent clip index key (native folders only)
+    indexKey: string | null;
+}
+
+/**
+ * Stable key for a source's root across sessions: native folders use their
+ * persistent id, archives and dropped folders fall back to the root name.
+ * The name survives new recordings on a live drive; per-clip data such as
+ * notes add the clip's folder name, so same-named roots only share it for
+ * the same recording.
+ */
+export function getSourceRootKey(source: LibrarySource): string {
+    return source.indexKey ?? source.root.name;
+}
+
+/**
+ * Mark every clip with the source it was scanned from
+ */
+export function tagClipsWithSource(clips: ClipsByCategory, sourceId: string): ClipsByCategory {
+    const tagged = { ...clips };
+    for (const category of CLIP_CATEGORIES) {
+        tagged[category] = clips[category].map(clip => ({ ...clip, source: sourceId }));
+    }
+    return tagged;
+}
+
+/**
+ * Identity of a recording regardless of where it is stored:
+ * the same folder name with the same segment times is the same clip.
+ */
+function getRecordingKey(clip: ClipInfo): string {
+    const times = clip.segments.map(segment => segment.timeStr).join(',');
+    return `${clip.category}/${clip.name}|${times}`;
+}
+
+/**
+ * Merge the clips of all sources. When a clip exists in several sources,
+ * the copy from the earliest added source is kept.
+ */
+export function mergeSourceClips(
+    sources: LibrarySource[],
+    clipsBySource: Map<string, ClipsByCategory>
+): { clips: ClipsByCategory; duplicates: number } {
+    const clips: ClipsByCategory = {
+        SavedClips: [],
+        SentryClips: [],
+        RecentClips: [],
+        TeslaTrackMode: [],
+    };
+    const seen = new Set<string>();
+    let duplicates = 0;
+
+    for (const source of sources) {
+        const sourceClips = clipsBySource.get(source.id);
+        if (!sourceClips) continue;
+
+        for (const category of CLIP_CATEGORIES) {
+            for (const clip of sourceClips[category]) {
+                const key = getRecordingKey(clip);
+                if (seen.has(key)) {
+                    duplicates++;
+                    continue;
+                }
+                seen.add(key);
+                clips[category].push(clip);
+            }
+        }
+    }
+
+    // A single source is already sorted; interleave several by time
+    if (sources.length > 1) {
+        for (const category of CLIP_CATEGORIES) {
+            clips[category].sort((a, b) => b.timestamp - a.timestamp);
+        }
+    }
+
+    return { clips, duplicates };
+}
+
+/**
+ * Pick a label for a new source, numbering repeated names (e.g. two "TeslaCam" folders)
+ */
+export function createSourceLabel(name: string, existing: LibrarySource[]): string {
+    const labels = new Set(existing.map(source => source.label));
+    if (!labels.has(name)) return name;
+
+    let n = 2;
+    while (labels.has(`${name} (${n})`)) n++;
+    return `${name} (${n})`;
+}
@@ -0,0 +1,117 @@
+/**
+ * Local Map Tiles
+ *
+ * Serves raster tiles from a user-selected directory laid out as
+ * {z}/{x}/{y}.png (or .jpg/.webp), e.g. an export from a tile downloader.
+ * Nothing is fetched from the network.
+ */
+
+import type { IFileSystemDirectoryEntry, IFileSystemFileEntry } from '../types/file-system';
+
+const TILE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+// Tiles kept loaded after leaving the view, so panning back is instant
+const MAX_CACHED_TILES = 200;
+
+interface TileEntry {
+    url: Promise<string | null>;
+    refs: number;
+    settled: boolean;
+    controller: AbortController;
+}
+
+export class LocalTileSource {
+    // Map iteration order doubles as LRU order (oldest first)
+    private entries = new Map<string, TileEntry>();
+
+    constructor(public readonly root: IFileSystemDirectoryEntry) { }
+
+    get name(): string {
+        return this.root.name;
+    }
+
+    /**
+     * Object URL of a tile, or null when the directory does not contain it;
+     * must be paired with releaseTile()
+     */
+    acquireTile(z: number, x: number, y: number): Promise<string | null> {
+        const key = `${z}/${x}/${y}`;
+        let entry = this.entries.get(key);
+        if (entry) {
+            this.entries.delete(key);
+        } else {
+            const controller = new AbortController();
+            const created: TileEntry = { url: this.loadTile(z, x, y, controller.signal), refs: 0, settled: false, controller };
+            created.url.then(() => {
+                created.settled = true;
+            });
+            entry = created;
+        }
+        entry.refs++;
+        this.entries.set(key, entry);
+        return entry.url;
+    }
+
+    releaseTile(z: number, x: number, y: number): void {
+        const key = `${z}/${x}/${y}`;
+        const entry = this.entries.get(key);
+        if (!entry) return;
+        entry.refs = Math.max(0, entry.refs - 1);
+
+        // Scrolled past before it loaded: drop the load instead of finishing it
+        if (entry.refs === 0 && !entry.settled) {
+            this.entries.delete(key);
+            entry.controller.abort();
+            entry.url.then(url => url && URL.revokeObjectURL(url));
+            return;
+        }
+        this.evict();
+    }
+
+    private async loadTile(z: number, x: number, y: number, signal: AbortSignal): Promise<string | null> {
+        try {
+            const zoomDir = await this.root.getDirectoryHandle(String(z));
+            const columnDir = await zoomDir.getDirectoryHandle(String(x));
+
+            for (const extension of TILE_EXTENSIONS) {
+                if (signal.aborted) return null;
+                let entry: IFileSystemFileEntry;
+                try {
+                    entry = await columnDir.getFileHandle(`${y}.${extension}`);
+                } catch {
+                    continue;
+                }
+                const file = await entry.getFile();
+                return signal.aborted ? null : URL.createObjectURL(file);
+            }
+        } catch {
+            // Zoom level or column not present
+        }
+        return null;
+    }
+
+    /**
+     * Revoke the least recently used URLs that are out of view
+     */
+    private evict(): void {
+        let excess = this.entries.size - MAX_CACHED_TILES;
+        for (const [key, entry] of this.entries) {
+            if (excess <= 0) break;
+            if (entry.refs > 0) continue;
+
+            this.entries.delete(key);
+            entry.url.then(url => url && URL.revokeObjectURL(url));
+            excess--;
+        }
+    }
+
+    /**
+     * Abort pending loads and revoke every object URL handed out so far
+     */
+    dispose(): void {
+        for (const entry of this.entries.values()) {
+            entry.controller.abort();
+            entry.url.then(url => url && URL.revokeObjectURL(url));
+        }
+        this.entries.clear();
+    }
+}
@@ -0,0 +1,160 @@
+/**
+ * Map Projection
+ *
+ * Web Mercator math for the offline event map. World coordinates are in the
+ * 0..1 range on both axes, matching the standard {z}/{x}/{y} tile scheme, so
+ * optional local tiles line up with the markers.
+ */
+
+import type { ClipInfo, ClipsByCategory } from '../types';
+import { CLIP_CATEGORIES } from './constants';
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 19;
+
+// Latitude limit of the Web Mercator projection
+const MAX_LATITUDE = 85.05112878;
+
+export interface WorldPoint {
+    x: number;
+    y: number;
+}
+
+export interface MapView {
+    // View center in world coordinates
+    center: WorldPoint;
+    zoom: number;
+    width: number;
+    height: number;
+}
+
+export interface MapEvent {
+    clip: ClipInfo;
+    world: WorldPoint;
+}
+
+export interface MapCluster {
+    events: MapEvent[];
+    // Screen position of the cluster (average of its events)
+    x: number;
+    y: number;
+}
+
+export function lonLatToWorld(longitude: number, latitude: number): WorldPoint {
+    const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * Math.PI / 180;
+    return {
+        x: (longitude + 180) / 360,
+        y: (1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2,
+    };
+}
+
+export function worldToLonLat(point: WorldPoint): { longitude: number; latitude: number } {
+    const n = Math.PI - 2 * Math.PI * point.y;
+    return {
+        longitude: point.x * 360 - 180,
+        latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    };
+}
+
+export function getWorldScale(zoom: number): number {
+    return TILE_SIZE * Math.pow(2, zoom);
+}
+
+export function worldToScreen(point: WorldPoint, view: MapView): { x: number; y: number } {
+    const scale = getWorldScale(view.zoom);
+    return {
+        x: (point.x - view.center.x) * scale + view.width / 2,
+        y: (point.y - view.center.y) * scale + view.height / 2,
+    };
+}
+
+export function screenToWorld(x: number, y: number, view: MapView): WorldPoint {
+    const scale = getWorldScale(view.zoom);
+    return {
+        x: view.center.x + (x - view.width / 2) / scale,
+        y: view.center.y + (y - view.height / 2) / scale,
+    };
+}
+
+export function clampZoom(zoom: number): number {
+    return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+}
+
+/**
+ * Collect clips with a usable event location
+ */
+export function collectMapEvents(clips: ClipsByCategory): MapEvent[] {
+    const events: MapEvent[] = [];
+    for (const category of CLIP_CATEGORIES) {
+        for (const clip of clips[category]) {
+            const latitude = clip.event?.latitude;
+            const longitude = clip.event?.longitude;
+            // 0,0 is what the car writes without a GPS fix
+            if (latitude === undefined || longitude === undefined) continue;
+            if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) continue;
+            if (latitude === 0 && longitude === 0) continue;
+
+            events.push({ clip, world: lonLatToWorld(longitude, latitude) });
+        }
+    }
+    return events;
+}
+
+/**
+ * Center and zoom that fit all points in a viewport of the given size
+ */
+export function fitView(
+    points: WorldPoint[],
+    width: number,
+    height: number,
+    padding = 40
+): Pick<MapView, 'center' | 'zoom'> {
+    if (points.length === 0) {
+        return { center: { x: 0.5, y: 0.5 }, zoom: MIN_ZOOM };
+    }
+
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+
+    const center = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+    const spanX = (maxX - minX) * TILE_SIZE;
+    const spanY = (maxY - minY) * TILE_SIZE;
+    if (spanX === 0 && spanY === 0) {
+        return { center, zoom: 15 };
+    }
+
+    const zoomX = spanX > 0 ? Math.log2(Math.max(1, width - padding * 2) / spanX) : MAX_ZOOM;
+    const zoomY = spanY > 0 ? Math.log2(Math.max(1, height - padding * 2) / spanY) : MAX_ZOOM;
+    return { center, zoom: clampZoom(Math.min(zoomX, zoomY, 17)) };
+}
+
+/**
+ * Greedily group events closer than `radius` pixels at the current view
+ */
+export function clusterEvents(events: MapEvent[], view: MapView, radius = 24): MapCluster[] {
+    const clusters: (MapCluster & { sumX: number; sumY: number })[] = [];
+
+    for (const event of events) {
+        const { x, y } = worldToScreen(event.world, view);
+        const cluster = clusters.find(candidate =>
+            Math.abs(candidate.x - x) < radius && Math.abs(candidate.y - y) < radius
+        );
+
+        if (cluster) {
+            cluster.events.push(event);
+            cluster.sumX += x;
+            cluster.sumY += y;
+            cluster.x = cluster.sumX / cluster.events.length;
+            cluster.y = cluster.sumY / cluster.events.length;
+        } else {
+            clusters.push({ events: [event], x, y, sumX: x, sumY: y });
+        }
+    }
+
+    return clusters.map(({ events: members, x, y }) => ({ events: members, x, y }));
+}
@@ -0,0 +1,120 @@
+/**
+ * MP4 Box Reader
+ *
+ * Minimal ISO BMFF box walking over File slices, so large videos can be
+ * inspected without reading them into memory.
+ */
+
+export interface Mp4Box {
+    type: string;
+    // Absolute offset of the box header in the file
+    offset: number;
+    // Total box size including the header
+    size: number;
+    headerSize: number;
+    // Box claims more bytes than the file contains
+    truncated: boolean;
+}
+
+/**
+ * Parse box headers from a buffer, with offsets relative to `baseOffset`
+ */
+export function parseBoxes(buffer: ArrayBuffer, baseOffset = 0, limit = baseOffset + buffer.byteLength): Mp4Box[] {
+    const view = new DataView(buffer);
+    const boxes: Mp4Box[] = [];
+    let pos = 0;
+
+    while (pos + 8 <= view.byteLength) {
+        const size32 = view.getUint32(pos, false);
+        const type = readFourCC(view, pos + 4);
+
+        let size: number;
+        let headerSize = 8;
+        if (size32 === 1) {
+            if (pos + 16 > view.byteLength) break;
+            size = view.getUint32(pos + 8, false) * 0x100000000 + view.getUint32(pos + 12, false);
+            headerSize = 16;
+        } else if (size32 === 0) {
+            // Box extends to end of file
+            size = limit - (baseOffset + pos);
+        } else {
+            size = size32;
+        }
+
+        if (size < headerSize) break;
+
+        const offset = baseOffset + pos;
+        boxes.push({ type, offset, size, headerSize, truncated: offset + size > limit });
+        pos += size;
+    }
+
+    return boxes;
+}
+
+/**
+ * Walk the top-level boxes of an MP4 file by reading only their headers
+ */
+export async function readTopLevelBoxes(file: Blob): Promise<Mp4Box[]> {
+    const boxes: Mp4Box[] = [];
+    let offset = 0;
+
+    while (offset + 8 <= file.size) {
+        const header = await file.slice(offset, offset + 16).arrayBuffer();
+        const [box] = parseBoxes(header, offset, file.size);
+        if (!box) break;
+
+        boxes.push(box);
+        if (box.truncated) break;
+        offset += box.size;
+    }
+
+    return boxes;
+}
+
+/**
+ * Read a box payload (without its header)
+ */
+export async function readBoxPayload(file: Blob, box: Mp4Box): Promise<ArrayBuffer> {
+    return file.slice(box.offset + box.headerSize, box.offset + box.size).arrayBuffer();
+}
+
+/**
+ * Find a child box inside a parent payload
+ */
+export function findChildBox(payload: ArrayBuffer, type: string): Mp4Box | undefined {
+    return parseBoxes(payload).find(box => box.type === type);
+}
+
+/**
+ * Read the movie duration in seconds from a moov box payload
+ */
+export function readMovieDuration(moovPayload: ArrayBuffer): number | null {
+    const mvhd = findChildBox(moovPayload, 'mvhd');
+    if (!mvhd || mvhd.truncated) return null;
+
+    const view = new DataView(moovPayload, mvhd.offset + mvhd.headerSize, mvhd.size - mvhd.headerSize);
+    const version = view.getUint8(0);
+
+    let timescale: number;
+    let duration: number;
+    if (version === 1) {
+        // version(1) flags(3) creation(8) modification(8) timescale(4) duration(8)
+        timescale = view.getUint32(20, false);
+        duration = view.getUint32(24, false) * 0x100000000 + view.getUint32(28, false);
+    } else {
+        // version(1) flags(3) creation(4) modification(4) timescale(4) duration(4)
+        timescale = view.getUint32(12, false);
+        duration = view.getUint32(16, false);
+    }
+
+    return timescale > 0 ? duration / timescale : null;
+}
+
+function readFourCC(view: DataView, offset: number): string {
+    return String.fromCharCode(
+        view.getUint8(offset),
+        view.getUint8(offset + 1),
+        view.getUint8(offset + 2),
+        view.getUint8(offset + 3)
+    );
+}
@@ -0,0 +1,265 @@
+/**
+ * Truncated MP4 Recovery
+ *
+ * A recording cut off by power loss keeps its mdat payload but never gets the
+ * moov index written, so browsers refuse to play it. The H.264 stream inside
+ * is intact, so it can be remuxed into a new MP4 using the decoder
+ * configuration (SPS/PPS) of a healthy segment from the same camera.
+ */
+
+import {
+    BlobSource,
+    BufferTarget,
+    EncodedPacket,
+    EncodedVideoPacketSource,
+    Input,
+    Mp4InputFormat,
+    Mp4OutputFormat,
+    Output,
+} from 'mediabunny';
+import type { Camera, ClipInfo, Segment } from '../types';
+import type { IFileSystemFileEntry } from '../types/file-system';
+import { VIDEO_FPS } from './constants';
+import { VirtualFileSystemFileEntry } from './file-system-adapters';
+import { readTopLevelBoxes } from './mp4-boxes';
+
+const NAL_TYPE_SLICE = 1;
+const NAL_TYPE_IDR = 5;
+const NAL_TYPE_SEI = 6;
+const NAL_TYPE_SPS = 7;
+const NAL_TYPE_PPS = 8;
+const NAL_TYPE_AUD = 9;
+
+interface AccessUnit {
+    // Length-prefixed NAL units, as stored in mdat
+    nals: Uint8Array[];
+    isKey: boolean;
+    hasSlice: boolean;
+}
+
+export interface ClipRecoveryResult {
+    clip: ClipInfo;
+    recovered: number;
+    // Files that could not be recovered, as "segment camera: reason"
+    failed: string[];
+}
+
+/**
+ * Check whether a file has a moov atom, i.e. is playable as is
+ */
+export async function hasMovieBox(file: Blob): Promise<boolean> {
+    const boxes = await readTopLevelBoxes(file);
+    return boxes.some(box => box.type === 'moov' && !box.truncated);
+}
+
+/**
+ * Read the H.264 decoder configuration from a healthy MP4
+ */
+async function readDecoderConfig(reference: File): Promise<VideoDecoderConfig> {
+    const input = new Input({ source: new BlobSource(reference), formats: [new Mp4InputFormat()] });
+    try {
+        const track = await input.getPrimaryVideoTrack();
+        if (!track || track.codec !== 'avc') {
+            throw new Error(`Reference ${reference.name} has no H.264 video track`);
+        }
+        const config = await track.getDecoderConfig();
+        if (!config?.description) {
+            throw new Error(`Reference ${reference.name} has no decoder configuration`);
+        }
+        return config;
+    } finally {
+        input.dispose();
+    }
+}
+
+/**
+ * Split the mdat payload into access units (one per frame).
+ * Stops at the first NAL unit cut off by the truncation.
+ */
+function splitAccessUnits(mdat: Uint8Array, lengthSize: number): AccessUnit[] {
+    const units: AccessUnit[] = [];
+    let current: AccessUnit | null = null;
+    let pos = 0;
+
+    while (pos + lengthSize < mdat.length) {
+        let nalSize = 0;
+        for (let i = 0; i < lengthSize; i++) {
+            nalSize = nalSize * 256 + mdat[pos + i];
+        }
+
+        const end = pos + lengthSize + nalSize;
+        // Zero padding or a partially written NAL marks the end of usable data
+        if (nalSize === 0 || end > mdat.length) break;
+
+        const nalType = mdat[pos + lengthSize] & 0x1f;
+        const isSlice = nalType === NAL_TYPE_SLICE || nalType === NAL_TYPE_IDR;
+        // first_mb_in_slice == 0 is encoded as a single 1 bit
+        const isFirstSlice = isSlice && (mdat[pos + lengthSize + 1] & 0x80) !== 0;
+        const isPrefix = nalType === NAL_TYPE_SEI
+            || nalType === NAL_TYPE_SPS
+            || nalType === NAL_TYPE_PPS
+            || nalType === NAL_TYPE_AUD;
+
+        if (!current || (current.hasSlice && (isFirstSlice || isPrefix))) {
+            if (current?.hasSlice) units.push(current);
+            current = { nals: [], isKey: false, hasSlice: false };
+        }
+
+        current.nals.push(mdat.subarray(pos, end));
+        current.hasSlice ||= isSlice;
+        current.isKey ||= nalType === NAL_TYPE_IDR;
+        pos = end;
+    }
+
+    // The last unit may be missing slices lost to the truncation, so it is dropped
+    return units;
+}
+
+function toBytes(source: AllowSharedBufferSource): Uint8Array {
+    return ArrayBuffer.isView(source)
+        ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+        : new Uint8Array(source);
+}
+
+function concatNals(nals: Uint8Array[]): Uint8Array {
+    const data = new Uint8Array(nals.reduce((sum, nal) => sum + nal.length, 0));
+    let offset = 0;
+    for (const nal of nals) {
+        data.set(nal, offset);
+        offset += nal.length;
+    }
+    return data;
+}
+
+/**
+ * Rebuild a playable MP4 from a file without a moov atom.
+ * `reference` must be a healthy recording from the same camera.
+ */
+export async function recoverTruncatedMp4(
+    broken: File,
+    reference: File,
+    fps: number = VIDEO_FPS
+): Promise<Blob> {
+    const boxes = await readTopLevelBoxes(broken);
+    const mdat = boxes.find(box => box.type === 'mdat');
+    if (!mdat) {
+        throw new Error(`No mdat atom in ${broken.name}`);
+    }
+
+    const decoderConfig = await readDecoderConfig(reference);
+    // avcC lengthSizeMinusOne
+    const lengthSize = (toBytes(decoderConfig.description!)[4] & 0x03) + 1;
+
+    const payloadEnd = Math.min(mdat.offset + mdat.size, broken.size);
+    const payload = new Uint8Array(await broken.slice(mdat.offset + mdat.headerSize, payloadEnd).arrayBuffer());
+
+    // Playback can only start at a keyframe
+    const units = splitAccessUnits(payload, lengthSize);
+    const firstKey = units.findIndex(unit => unit.isKey);
+    if (firstKey === -1) {
+        throw new Error(`No keyframe found in ${broken.name}`);
+    }
+
+    const target = new BufferTarget();
+    const output = new Output({
+        format: new Mp4OutputFormat({ fastStart: 'in-memory' }),
+        target,
+    });
+    const source = new EncodedVideoPacketSource('avc');
+    output.addVideoTrack(source);
+    await output.start();
+
+    // Tesla streams have no B-frames, so decode order is presentation order
+    const frameDuration = 1 / fps;
+    for (let i = firstKey; i < units.length; i++) {
+        const unit = units[i];
+        const packet = new EncodedPacket(
+            concatNals(unit.nals),
+            unit.isKey ? 'key' : 'delta',
+            (i - firstKey) * frameDuration,
+            frameDuration
+        );
+        await source.add(packet, i === firstKey ? { decoderConfig } : undefined);
+    }
+
+    await output.finalize();
+    return new Blob([target.buffer!], { type: 'video/mp4' });
+}
+
+/**
+ * Find the nearest segment of the clip with a playable file for the camera
+ */
+async function findReference(
+    clip: ClipInfo,
+    segmentIndex: number,
+    camera: Camera,
+    isHealthy: (entry: IFileSystemFileEntry) => Promise<boolean>
+): Promise<File | null> {
+    for (let distance = 1; distance < clip.segments.length; distance++) {
+        for (const index of [segmentIndex - distance, segmentIndex + distance]) {
+            const entry = clip.segments[index]?.files[camera];
+            if (entry && await isHealthy(entry)) {
+                return entry.getFile();
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Recover every file of a clip that lacks a moov atom.
+ * Unchanged segments keep their identity; recovered files live in memory.
+ */
+export async function recoverTruncatedSegments(clip: ClipInfo, fps: number = VIDEO_FPS): Promise<ClipRecoveryResult> {
+    const health = new Map<IFileSystemFileEntry, Promise<boolean>>();
+    const isHealthy = (entry: IFileSystemFileEntry) => {
+        let result = health.get(entry);
+        if (!result) {
+            result = entry.getFile()
+                .then(file => file.size > 0 && hasMovieBox(file))
+                .catch(() => false);
+            health.set(entry, result);
+        }
+        return result;
+    };
+
+    const result: ClipRecoveryResult = { clip, recovered: 0, failed: [] };
+    const segments: Segment[] = [];
+
+    for (let i = 0; i < clip.segments.length; i++) {
+        const segment = clip.segments[i];
+        let files: Segment['files'] | null = null;
+
+        for (const [camera, entry] of Object.entries(segment.files) as [Camera, IFileSystemFileEntry][]) {
+            if (await isHealthy(entry)) continue;
+
+            try {
+                const broken = await entry.getFile();
+                if (broken.size === 0) {
+                    throw new Error('file is empty');
+                }
+
+                const reference = await findReference(clip, i, camera, isHealthy);
+                if (!reference) {
+                    throw new Error('no healthy segment from the same camera');
+                }
+
+                const blob = await recoverTruncatedMp4(broken, reference, fps);
+                files ??= { ...segment.files };
+                files[camera] = new VirtualFileSystemFileEntry(
+                    new File([blob], entry.name, { type: 'video/mp4', lastModified: broken.lastModified })
+                );
+                result.recovered++;
+            } catch (err) {
+                result.failed.push(`${segment.timeStr} ${camera}: ${err instanceof Error ? err.message : err}`);
+            }
+        }
+
+        segments.push(files ? { ...segment, files } : segment);
+    }
+
+    if (result.recovered > 0) {
+        result.clip = { ...clip, segments };
+    }
+    return result;
+}
@@ -0,0 +1,220 @@
+/**
+ * MP4 Sample Table
+ *
+ * Reads where each video sample (access unit) lies in the file and when it is
+ * presented, from the moov/trak/mdia/minf/stbl tables: stts (decode deltas),
+ * ctts (composition offsets), stsz (sizes), stsc and stco/co64 (chunk layout).
+ * The codec comes from the stsd sample entry.
+ */
+
+import { parseBoxes } from './mp4-boxes';
+
+export interface Mp4SampleTable {
+    // File offset and size of each sample, in decode order
+    offsets: number[];
+    sizes: number[];
+    // Presentation time of each sample in seconds, counted from the first presented sample
+    times: number[];
+}
+
+/**
+ * Payloads of the child boxes of a type
+ */
+function findChildPayloads(payload: ArrayBuffer, type: string): ArrayBuffer[] {
+    return parseBoxes(payload)
+        .filter(box => box.type === type && !box.truncated)
+        .map(box => payload.slice(box.offset + box.headerSize, box.offset + box.size));
+}
+
+function findChildPayload(payload: ArrayBuffer, type: string): ArrayBuffer | null {
+    return findChildPayloads(payload, type)[0] ?? null;
+}
+
+/**
+ * Build the sample table of the first video track from a moov box payload
+ */
+export function parseVideoSampleTable(moovPayload: ArrayBuffer): Mp4SampleTable | null {
+    const mdia = findVideoMedia(moovPayload);
+    const mdhd = mdia && findChildPayload(mdia, 'mdhd');
+    const stbl = mdia && findSampleTableBox(mdia);
+    if (!mdhd || !stbl) return null;
+
+    const timescale = readTimescale(new DataView(mdhd));
+    if (!timescale) return null;
+    return buildSampleTable(stbl, timescale);
+}
+
+/**
+ * Four-character code of the first video sample entry in stsd, e.g. avc1 or hvc1
+ */
+export function readVideoSampleEntry(moovPayload: ArrayBuffer): string | null {
+    const mdia = findVideoMedia(moovPayload);
+    const stbl = mdia && findSampleTableBox(mdia);
+    const stsd = stbl && findChildPayload(stbl, 'stsd');
+    // stsd: version/flags(4) entry_count(4), then the first entry's size(4) and type(4)
+    if (!stsd || stsd.byteLength < 16) return null;
+    return readFourCC(new DataView(stsd), 12);
+}
+
+/**
+ * mdia payload of the first video track
+ */
+function findVideoMedia(moovPayload: ArrayBuffer): ArrayBuffer | null {
+    for (const trak of findChildPayloads(moovPayload, 'trak')) {
+        const mdia = findChildPayload(trak, 'mdia');
+        const hdlr = mdia && findChildPayload(mdia, 'hdlr');
+        // hdlr: version(1) flags(3) pre_defined(4) handler_type(4)
+        if (hdlr && hdlr.byteLength >= 12 && readFourCC(new DataView(hdlr), 8) === 'vide') {
+            return mdia;
+        }
+    }
+    return null;
+}
+
+function findSampleTableBox(mdia: ArrayBuffer): ArrayBuffer | null {
+    const minf = findChildPayload(mdia, 'minf');
+    return minf && findChildPayload(minf, 'stbl');
+}
+
+function buildSampleTable(stbl: ArrayBuffer, timescale: number): Mp4SampleTable | null {
+    const stts = findChildPayload(stbl, 'stts');
+    const stsz = findChildPayload(stbl, 'stsz');
+    const stsc = findChildPayload(stbl, 'stsc');
+    const chunkOffsets = readChunkOffsets(stbl);
+    if (!stts || !stsz || !stsc || !chunkOffsets) return null;
+
+    const sizes = readSampleSizes(new DataView(stsz));
+    const offsets = layOutSamples(new DataView(stsc), chunkOffsets, sizes);
+
+    // Decode times from stts, shifted by ctts composition offsets
+    const decodeDeltas = readRuns(new DataView(stts), false);
+    const ctts = findChildPayload(stbl, 'ctts');
+    const compositionOffsets = ctts ? readRuns(new DataView(ctts), new DataView(ctts).getUint8(0) === 1) : [];
+
+    const presentation: number[] = [];
+    let decodeTime = 0;
+    for (let i = 0; i < sizes.length; i++) {
+        presentation.push(decodeTime + (compositionOffsets[i] ?? 0));
+        decodeTime += decodeDeltas[i] ?? decodeDeltas[decodeDeltas.length - 1] ?? 0;
+    }
+
+    // Times count from the first presented sample, as players apply the usual edit list
+    const start = presentation.length > 0 ? Math.min(...presentation) : 0;
+    const times = presentation.map(time => (time - start) / timescale);
+
+    return { offsets, sizes, times };
+}
+
+/**
+ * Expand a run-length table (stts or ctts) to one value per sample
+ */
+function readRuns(view: DataView, signed: boolean): number[] {
+    const values: number[] = [];
+    const entryCount = view.getUint32(4, false);
+    for (let i = 0; i < entryCount && 8 + i * 8 + 8 <= view.byteLength; i++) {
+        const count = view.getUint32(8 + i * 8, false);
+        const value = signed ? view.getInt32(12 + i * 8, false) : view.getUint32(12 + i * 8, false);
+        for (let j = 0; j < count; j++) values.push(value);
+    }
+    return values;
+}
+
+function readSampleSizes(view: DataView): number[] {
+    // version/flags(4) sample_size(4) sample_count(4) entries
+    const fixedSize = view.getUint32(4, false);
+    const count = view.getUint32(8, false);
+    const sizes: number[] = [];
+    for (let i = 0; i < count; i++) {
+        if (fixedSize !== 0) {
+            sizes.push(fixedSize);
+        } else if (12 + i * 4 + 4 <= view.byteLength) {
+            sizes.push(view.getUint32(12 + i * 4, false));
+        } else {
+            break;
+        }
+    }
+    return sizes;
+}
+
+function readChunkOffsets(stbl: ArrayBuffer): number[] | null {
+    const stco = findChildPayload(stbl, 'stco');
+    const co64 = stco ? null : findChildPayload(stbl, 'co64');
+    const table = stco ?? co64;
+    if (!table) return null;
+
+    const view = new DataView(table);
+    const entrySize = stco ? 4 : 8;
+    const count = view.getUint32(4, false);
+    const offsets: number[] = [];
+    for (let i = 0; i < count && 8 + (i + 1) * entrySize <= view.byteLength; i++) {
+        const pos = 8 + i * entrySize;
+        offsets.push(stco
+            ? view.getUint32(pos, false)
+            : view.getUint32(pos, false) * 0x100000000 + view.getUint32(pos + 4, false));
+    }
+    return offsets;
+}
+
+/**
+ * File offset of every sample from the sample-to-chunk table
+ */
+function layOutSamples(stsc: DataView, chunkOffsets: number[], sizes: number[]): number[] {
+    // Entries: first_chunk (1-based), samples_per_chunk, sample_description_index
+    const entryCount = stsc.getUint32(4, false);
+    const entries: { firstChunk: number; samplesPerChunk: number }[] = [];
+    for (let i = 0; i < entryCount && 8 + i * 12 + 12 <= stsc.byteLength; i++) {
+        entries.push({
+            firstChunk: stsc.getUint32(8 + i * 12, false),
+            samplesPerChunk: stsc.getUint32(12 + i * 12, false),
+        });
+    }
+
+    const offsets: number[] = [];
+    let entry = 0;
+    for (let chunk = 0; chunk < chunkOffsets.length && offsets.length < sizes.length; chunk++) {
+        while (entry + 1 < entries.length && entries[entry + 1].firstChunk <= chunk + 1) entry++;
+        const samplesPerChunk = entries[entry]?.samplesPerChunk ?? 0;
+
+        let offset = chunkOffsets[chunk];
+        for (let i = 0; i < samplesPerChunk && offsets.length < sizes.length; i++) {
+            offsets.push(offset);
+            offset += sizes[offsets.length - 1];
+        }
+    }
+    return offsets;
+}
+
+function readTimescale(mdhd: DataView): number {
+    // v0: version(1) flags(3) creation(4) modification(4) timescale(4)
+    // v1: version(1) flags(3) creation(8) modification(8) timescale(4)
+    return mdhd.getUint8(0) === 1 ? mdhd.getUint32(20, false) : mdhd.getUint32(12, false);
+}
+
+/**
+ * Index of the sample containing a file offset, or -1
+ */
+export function findSampleAtOffset(table: Mp4SampleTable, offset: number): number {
+    const { offsets, sizes } = table;
+    let low = 0;
+    let high = offsets.length - 1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (offset < offsets[mid]) {
+            high = mid - 1;
+        } else if (offset >= offsets[mid] + sizes[mid]) {
+            low = mid + 1;
+        } else {
+            return mid;
+        }
+    }
+    return -1;
+}
+
+function readFourCC(view: DataView, offset: number): string {
+    return String.fromCharCode(
+        view.getUint8(offset),
+        view.getUint8(offset + 1),
+        view.getUint8(offset + 2),
+        view.getUint8(offset + 3)
+    );
+}
@@ -0,0 +1,112 @@
+/**
+ * Recently opened TeslaCam folders
+ *
+ * Persists native directory handles in IndexedDB so a folder can be reopened
+ * after a reload. Only File System Access API handles can be persisted; folders
+ * opened through <input type="file"> or drag-and-drop fallbacks are not stored.
+ *
+ * A folder's id keys its clip index, notes and settings. Ids are kept apart
+ * from the short recent list, so a folder trimmed from it gets the same id
+ * when it is opened again.
+ */
+
+import { deleteClipIndex } from './clip-index';
+import { STORES, storageDelete, storageGetAll, storagePut } from './storage';
+
+// Maximum number of folders kept in the recent list
+const MAX_RECENT_FOLDERS = 5;
+
+export interface RecentFolder {
+    id: string;
+    name: string;
+    handle: FileSystemDirectoryHandle;
+    lastOpened: number;
+}
+
+interface FolderId {
+    id: string;
+    handle: FileSystemDirectoryHandle;
+}
+
+// Permission methods are not yet part of the DOM typings
+type PermissionedHandle = FileSystemHandle & {
+    queryPermission?: (descriptor: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+    requestPermission?: (descriptor: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+};
+
+/**
+ * Get recent folders, most recently opened first
+ */
+export async function getRecentFolders(): Promise<RecentFolder[]> {
+    const folders = await storageGetAll<RecentFolder>(STORES.recentFolders);
+    return folders.sort((a, b) => b.lastOpened - a.lastOpened);
+}
+
+/**
+ * Persistent id of a folder, assigned the first time it is opened
+ */
+async function getFolderId(handle: FileSystemDirectoryHandle, recent: RecentFolder[]): Promise<string> {
+    for (const known of await storageGetAll<FolderId>(STORES.folderIds)) {
+        if (await known.handle.isSameEntry(handle)) return known.id;
+    }
+
+    // Folders opened before ids were stored separately keep their recent-list id
+    let id: string | undefined;
+    for (const folder of recent) {
+        if (await folder.handle.isSameEntry(handle)) {
+            id = folder.id;
+            break;
+        }
+    }
+    id ??= crypto.randomUUID();
+    await storagePut<FolderId>(STORES.folderIds, { id, handle });
+    return id;
+}
+
+/**
+ * Record a folder as opened, replacing an existing entry for the same folder
+ */
+export async function addRecentFolder(handle: FileSystemDirectoryHandle): Promise<RecentFolder[]> {
+    const folders = await getRecentFolders();
+
+    const entry: RecentFolder = {
+        id: await getFolderId(handle, folders),
+        name: handle.name,
+        handle,
+        lastOpened: Date.now(),
+    };
+    await storagePut(STORES.recentFolders, entry);
+
+    // Trim the oldest entries beyond the limit; their index is only a cache
+    // and is rebuilt by a full scan if the folder is opened again
+    const updated = [entry, ...folders.filter(folder => folder.id !== entry.id)];
+    for (const stale of updated.slice(MAX_RECENT_FOLDERS)) {
+        await storageDelete(STORES.recentFolders, stale.id);
+        await deleteClipIndex(stale.id);
+    }
+
+    return updated.slice(0, MAX_RECENT_FOLDERS);
+}
+
+export async function removeRecentFolder(id: string): Promise<void> {
+    await storageDelete(STORES.recentFolders, id);
+    await deleteClipIndex(id);
+}
+
+/**
+ * Ensure read permission on a persisted handle.
+ * Must be called from a user gesture, as the browser may show a prompt.
+ */
+export async function requestReadPermission(handle: FileSystemDirectoryHandle): Promise<boolean> {
+    const permissioned = handle as PermissionedHandle;
+
+    if (!permissioned.queryPermission || !permissioned.requestPermission) {
+        // Browsers without the permission API grant access for the handle lifetime
+        return true;
+    }
+
+    if (await permissioned.queryPermission({ mode: 'read' }) === 'granted') {
+        return true;
+    }
+    return await permissioned.requestPermission({ mode: 'read' }) === 'granted';
+}
@@ -8,188 +8,186 @@
  * - Firmware 2025.44.25 or later
  * - HW3 or above vehicles
  * - May not be present if car is parked
+ *
+ * Footage is H.264 or, on newer vehicles, H.265; the codec is read from the
+ * video sample entry and decides how NAL unit headers are read.
+ *
+ * This is the only SEI decoder: the SEI worker streams files through
+ * decodeSeiNalUnits, and main-thread callers use extractSeiMetadata.
+ * Message fields are described in sei-schema.ts.
  */
 
-import type { SeiData } from '../types';
+import type { SeiData, SeiProtoField } from '../types';
+import { parseBoxes } from './mp4-boxes';
+import { readVideoSampleEntry } from './mp4-sample-table';
+import { type SeiFieldDef, type SeiFieldType, SEI_VERSION_FIELD, getSeiSchema } from './sei-schema';
 
-// SEI field type definitions
-type SeiFieldType = 'uint32' | 'uint64' | 'float' | 'double' | 'bool' | 'enum';
+// NAL unit types
+const NAL_ID_SEI = 6;
+const HEVC_NAL_ID_PREFIX_SEI = 39;
+const HEVC_NAL_ID_SUFFIX_SEI = 40;
+const NAL_SEI_ID_USER_DATA_UNREGISTERED = 5;
 
-interface SeiFieldDef {
-    name: keyof SeiData | 'version' | 'frame_seq_no' | 'heading_deg';
-    type: SeiFieldType;
-}
+export type SeiCodec = 'avc' | 'hevc';
 
-// SEI Metadata field definitions from dashcam.proto
-const SEI_FIELDS: Record<number, SeiFieldDef> = {
-    1: { name: 'version', type: 'uint32' },
-    2: { name: 'gear_state', type: 'enum' },
-    3: { name: 'frame_seq_no', type: 'uint64' },
-    4: { name: 'vehicle_speed_mps', type: 'float' },
-    5: { name: 'accelerator_pedal_position', type: 'float' },
-    6: { name: 'steering_wheel_angle', type: 'float' },
-    7: { name: 'blinker_on_left', type: 'bool' },
-    8: { name: 'blinker_on_right', type: 'bool' },
-    9: { name: 'brake_applied', type: 'bool' },
-    10: { name: 'autopilot_state', type: 'enum' },
-    11: { name: 'latitude_deg', type: 'double' },
-    12: { name: 'longitude_deg', type: 'double' },
-    13: { name: 'heading_deg', type: 'double' },
-    14: { name: 'linear_acceleration_mps2_x', type: 'double' },
-    15: { name: 'linear_acceleration_mps2_y', type: 'double' },
-    16: { name: 'linear_acceleration_mps2_z', type: 'double' },
+// Sample entry types of H.265 video
+const HEVC_SAMPLE_ENTRIES = new Set(['hvc1', 'hev1']);
+
+// Larger length prefixes are treated as corrupt data rather than a NAL unit
+const MAX_NAL_SIZE = 10 * 1024 * 1024;
+
+// Protobuf wire types
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+// Wire type each schema type is encoded with
+const FIELD_WIRE_TYPES: Record<SeiFieldType, number> = {
+    uint32: WIRE_VARINT,
+    uint64: WIRE_VARINT,
+    bool: WIRE_VARINT,
+    enum: WIRE_VARINT,
+    float: WIRE_FIXED32,
+    double: WIRE_FIXED64,
 };
 
-// NAL unit types
-const NAL_ID_SEI = 6;
-const NAL_SEI_ID_USER_DATA_UNREGISTERED = 5;
+export interface SeiNalScanResult {
+    messages: SeiData[];
+    // Position in the scanned data of each message's NAL unit, to map it to its sample
+    offsets: number[];
+    // Bytes fully processed; a NAL unit cut off at the end of the data starts here
+    consumed: number;
+}
 
 /**
  * Extract all SEI metadata frames from an MP4 file
  */
 export async function extractSeiMetadata(arrayBuffer: ArrayBuffer): Promise<SeiData[]> {
-    const dataView = new DataView(arrayBuffer);
-    const results: SeiData[] = [];
-
     try {
-        // Find mdat atom
-        const { offset, size } = findMdat(dataView);
-
-        if (offset === -1) {
+        const boxes = parseBoxes(arrayBuffer);
+        const mdat = boxes.find(box => box.type === 'mdat');
+        if (!mdat) {
             console.warn('mdat atom not found');
-            return results;
+            return [];
         }
 
-        // Iterate through NAL units and extract SEI data
-        for (const nal of iterNals(dataView, offset, size)) {
-            const payload = extractProtoPayload(nal);
-            if (!payload) continue;
-
-            try {
-                const metadata = decodeProtobuf(payload);
-                if (metadata && Object.keys(metadata).length > 0) {
-                    results.push(metadata);
-                }
-            } catch {
-                // Skip invalid protobuf data
-                continue;
-            }
-        }
+        const moov = boxes.find(box => box.type === 'moov' && !box.truncated);
+        const codec = moov
+            ? getSeiCodec(readVideoSampleEntry(arrayBuffer.slice(moov.offset + moov.headerSize, moov.offset + moov.size)))
+            : 'avc';
+
+        const start = mdat.offset + mdat.headerSize;
+        const end = Math.min(mdat.offset + mdat.size, arrayBuffer.byteLength);
+        return decodeSeiNalUnits(new Uint8Array(arrayBuffer, start, end - start), codec).messages;
     } catch (err) {
         console.error('Error extracting SEI metadata:', err);
+        return [];
     }
+}
 
-    return results;
+/**
+ * Codec of a video sample entry type. Anything but H.265 is read as H.264,
+ * including files whose moov is missing.
+ */
+export function getSeiCodec(sampleEntry: string | null): SeiCodec {
+    return sampleEntry && HEVC_SAMPLE_ENTRIES.has(sampleEntry) ? 'hevc' : 'avc';
 }
 
 /**
- * Find the mdat atom in the MP4 file
+ * Decode the Tesla SEI messages among length-prefixed NAL units (mdat content).
+ * Stops at a NAL unit that runs past the end of `data`, so streaming callers
+ * can prepend the unconsumed bytes to their next chunk.
  */
-function findMdat(dataView: DataView): { offset: number; size: number } {
+export function decodeSeiNalUnits(data: Uint8Array, codec: SeiCodec = 'avc'): SeiNalScanResult {
+    const messages: SeiData[] = [];
+    const offsets: number[] = [];
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
     let pos = 0;
-    const length = dataView.byteLength;
-
-    while (pos < length - 8) {
-        const size32 = dataView.getUint32(pos, false); // Big endian
-        const atomType = readString(dataView, pos + 4, 4);
-
-        let atomSize: number;
-        let headerSize: number;
-
-        if (size32 === 1) {
-            // Extended size (64-bit)
-            if (pos + 16 > length) break;
-            atomSize = readUint64(dataView, pos + 8);
-            headerSize = 16;
-        } else if (size32 === 0) {
-            // Atom extends to end of file
-            atomSize = length - pos;
-            headerSize = 8;
-        } else {
-            atomSize = size32;
-            headerSize = 8;
+
+    while (pos + 4 < data.length) {
+        const nalSize = view.getUint32(pos, false);
+
+        // Not a plausible NAL unit: step past the length field and resync
+        if (nalSize < 2 || nalSize > MAX_NAL_SIZE) {
+            pos += 4;
+            continue;
         }
 
-        if (atomType === 'mdat') {
-            const payloadSize = atomSize - headerSize;
-            return { offset: pos + headerSize, size: payloadSize };
+        // Incomplete NAL unit
+        if (pos + 4 + nalSize > data.length) {
+            return { messages, offsets, consumed: pos };
         }
 
-        if (atomSize < headerSize) {
-            break;
+        const message = parseSeiNal(data.subarray(pos + 4, pos + 4 + nalSize), codec);
+        if (message) {
+            messages.push(message);
+            offsets.push(pos);
         }
 
-        pos += atomSize;
+        pos += 4 + nalSize;
     }
 
-    return { offset: -1, size: 0 };
+    return { messages, offsets, consumed: pos };
 }
 
 /**
- * Iterate through SEI NAL units in the mdat atom
+ * Decode one NAL unit if it is a Tesla SEI message
  */
-function* iterNals(
-    dataView: DataView,
-    offset: number,
-    size: number
-): Generator<Uint8Array> {
-    let consumed = 0;
-    const end = size === 0 ? dataView.byteLength : offset + size;
-
-    while (offset + consumed + 4 < end) {
-        const pos = offset + consumed;
-
-        // Read NAL size (4 bytes, big endian)
-        const nalSize = dataView.getUint32(pos, false);
-
-        if (nalSize < 2 || pos + 4 + nalSize > end) {
-            consumed += 4 + (nalSize < 2 ? nalSize : 0);
-            continue;
-        }
+export function parseSeiNal(nal: Uint8Array, codec: SeiCodec = 'avc'): SeiData | null {
+    // H.264 NAL headers are one byte, H.265 headers two
+    const headerSize = codec === 'hevc' ? 2 : 1;
+    if (nal.length < headerSize + 1 || !isSeiNal(nal, codec)) return null;
 
-        // Read first two bytes to check NAL type
-        const firstByte = dataView.getUint8(pos + 4);
-        const secondByte = dataView.getUint8(pos + 5);
-
-        const nalType = firstByte & 0x1f;
-        const seiPayloadType = secondByte;
+    // Check if this is an SEI NAL with user data unregistered
+    if (nal[headerSize] !== NAL_SEI_ID_USER_DATA_UNREGISTERED) {
+        return null;
+    }
 
-        // Check if this is an SEI NAL with user data unregistered
-        if (nalType !== NAL_ID_SEI || seiPayloadType !== NAL_SEI_ID_USER_DATA_UNREGISTERED) {
-            consumed += 4 + nalSize;
-            continue;
-        }
+    const payload = extractProtoPayload(nal, headerSize);
+    if (!payload) return null;
 
-        // Extract full NAL unit
-        const nalData = new Uint8Array(dataView.buffer, pos + 4, nalSize);
-        yield nalData;
+    try {
+        const message = decodeSeiMessage(payload);
+        if (Object.keys(message).length === 0) return null;
+
+        // Copied so posting the frame from the worker doesn't clone the whole chunk
+        message.rawNal = nal.slice();
+        return message;
+    } catch {
+        // Skip invalid protobuf data
+        return null;
+    }
+}
 
-        consumed += 4 + nalSize;
+function isSeiNal(nal: Uint8Array, codec: SeiCodec): boolean {
+    if (codec === 'hevc') {
+        const nalType = (nal[0] >> 1) & 0x3f;
+        return nalType === HEVC_NAL_ID_PREFIX_SEI || nalType === HEVC_NAL_ID_SUFFIX_SEI;
     }
+    return (nal[0] & 0x1f) === NAL_ID_SEI;
 }
 
 /**
  * Extract protobuf payload from SEI NAL unit
  * Tesla's SEI data has a marker pattern: 0x42...0x42 0x69 followed by protobuf
  */
-function extractProtoPayload(nal: Uint8Array): Uint8Array | null {
-    if (!nal || nal.length < 2) {
-        return null;
-    }
+function extractProtoPayload(nal: Uint8Array, headerSize: number): Uint8Array | null {
+    // The marker follows the NAL header and the SEI payload type and size bytes
+    const markerStart = headerSize + 2;
 
     // Look for the marker pattern: 0x42 bytes followed by 0x69
-    for (let i = 3; i < nal.length - 1; i++) {
+    for (let i = markerStart; i < nal.length - 1; i++) {
         const byte = nal[i];
 
         if (byte === 0x42) {
             continue;
         }
 
-        if (byte === 0x69 && i > 2) {
+        if (byte === 0x69) {
             // Found marker, extract and clean payload
             // Skip the trailing byte (usually 0x80 RBSP trailing bits)
-            const rawPayload = nal.slice(i + 1, nal.length - 1);
-            return stripEmulationPreventionBytes(rawPayload);
+            return stripEmulationPreventionBytes(nal.subarray(i + 1, nal.length - 1));
         }
 
         // Not a valid marker pattern
@@ -200,10 +198,11 @@ function extractProtoPayload(nal: Uint8Array): Uint8Array | null {
 }
 
 /**
- * Remove H.264 emulation prevention bytes (0x03 following 0x00 0x00)
+ * Remove emulation prevention bytes (0x03 following 0x00 0x00), the same in H.264 and H.265
  */
 function stripEmulationPreventionBytes(data: Uint8Array): Uint8Array {
-    const stripped: number[] = [];
+    const stripped = new Uint8Array(data.length);
+    let length = 0;
     let zeroCount = 0;
 
     for (const byte of data) {
@@ -212,188 +211,132 @@ function stripEmulationPreventionBytes(data: Uint8Array): Uint8Array {
             continue;
         }
 
-        stripped.push(byte);
+        stripped[length++] = byte;
         zeroCount = byte === 0 ? zeroCount + 1 : 0;
     }
 
-    return new Uint8Array(stripped);
+    return stripped.subarray(0, length);
 }
 
 /**
- * Decode protobuf message according to SEI schema
+ * Decode a SeiMetadata protobuf message using the field table of its version.
+ * Fields the table doesn't describe, or that arrive with a different wire type
+ * than it expects, are kept in `unknownFields`.
  */
-function decodeProtobuf(data: Uint8Array): SeiData {
+export function decodeSeiMessage(data: Uint8Array): SeiData {
+    const fields = readProtoFields(data);
+
+    const versionField = fields.find(field => field.number === SEI_VERSION_FIELD && field.wireType === WIRE_VARINT);
+    const schema = getSeiSchema(versionField?.value as number | undefined);
+
     const result: Record<string, unknown> = {};
+    const unknownFields: SeiProtoField[] = [];
+    for (const field of fields) {
+        const fieldDef = schema[field.number];
+        if (fieldDef && FIELD_WIRE_TYPES[fieldDef.type] === field.wireType) {
+            result[fieldDef.name] = convertField(field, fieldDef);
+        } else {
+            unknownFields.push(field);
+        }
+    }
+
+    if (unknownFields.length > 0) {
+        result.unknownFields = unknownFields;
+    }
+    return result as SeiData;
+}
+
+/**
+ * Interpret a raw field as its schema type, whose wire type it matches
+ */
+function convertField(field: SeiProtoField, fieldDef: SeiFieldDef): unknown {
+    const { value } = field;
+    if (typeof value === 'number') {
+        return fieldDef.type === 'bool' ? value !== 0 : value;
+    }
+
+    const view = new DataView(value.buffer, value.byteOffset, value.byteLength);
+    return fieldDef.type === 'float' ? view.getFloat32(0, true) : view.getFloat64(0, true);
+}
+
+/**
+ * Split a protobuf message into its fields, stopping at malformed data
+ */
+function readProtoFields(data: Uint8Array): SeiProtoField[] {
+    const fields: SeiProtoField[] = [];
     let pos = 0;
 
     while (pos < data.length) {
         // Read field header (varint)
-        const { value: header, bytesRead: headerBytes } = readVarint(data, pos);
-        if (headerBytes === 0) break;
-        pos += headerBytes;
-
-        const fieldNumber = header >>> 3;
-        const wireType = header & 0x07;
+        const header = readVarint(data, pos);
+        if (header.bytesRead === 0) break;
+        pos += header.bytesRead;
 
-        const fieldDef = SEI_FIELDS[fieldNumber];
-
-        // Read field value based on wire type
-        let fieldValue: unknown;
-        let valueBytesRead: number;
+        const number = Math.floor(header.value / 8);
+        const wireType = header.value % 8;
 
+        let value: number | Uint8Array;
         switch (wireType) {
-            case 0: {
-                // Varint
-                const varintResult = readVarint(data, pos);
-                fieldValue = varintResult.value;
-                valueBytesRead = varintResult.bytesRead;
+            case WIRE_VARINT: {
+                const varint = readVarint(data, pos);
+                if (varint.bytesRead === 0) return fields;
+                value = varint.value;
+                pos += varint.bytesRead;
                 break;
             }
 
-            case 1: // 64-bit (fixed64, double)
-                if (pos + 8 > data.length) return result as SeiData;
-                if (fieldDef && fieldDef.type === 'double') {
-                    fieldValue = readDouble(data, pos);
-                } else {
-                    fieldValue = readFixed64(data, pos);
-                }
-                valueBytesRead = 8;
-                break;
-
-            case 5: // 32-bit (fixed32, float)
-                if (pos + 4 > data.length) return result as SeiData;
-                if (fieldDef && fieldDef.type === 'float') {
-                    fieldValue = readFloat(data, pos);
-                } else {
-                    fieldValue = readFixed32(data, pos);
-                }
-                valueBytesRead = 4;
+            case WIRE_FIXED64:
+            case WIRE_FIXED32: {
+                const size = wireType === WIRE_FIXED64 ? 8 : 4;
+                if (pos + size > data.length) return fields;
+                value = data.subarray(pos, pos + size);
+                pos += size;
                 break;
+            }
 
-            case 2: {
-                // Length-delimited (string, bytes, embedded message)
-                const lenResult = readVarint(data, pos);
-                pos += lenResult.bytesRead;
-                valueBytesRead = lenResult.value;
-                fieldValue = data.slice(pos, pos + valueBytesRead);
+            case WIRE_LENGTH_DELIMITED: {
+                const length = readVarint(data, pos);
+                pos += length.bytesRead;
+                if (length.bytesRead === 0 || pos + length.value > data.length) return fields;
+                value = data.subarray(pos, pos + length.value);
+                pos += length.value;
                 break;
             }
 
             default:
-                // Unknown wire type, try to skip
-                return result as SeiData;
+                // Unknown wire type, can't skip safely
+                return fields;
         }
 
-        if (valueBytesRead === 0 && wireType !== 2) break;
-        pos += valueBytesRead;
-
-        // Store field if we know its definition
-        if (fieldDef) {
-            // Handle boolean types
-            if (fieldDef.type === 'bool') {
-                result[fieldDef.name] = fieldValue !== 0;
-            } else {
-                result[fieldDef.name] = fieldValue;
-            }
-        }
+        fields.push({ number, wireType, value });
     }
 
-    return result as SeiData;
+    return fields;
 }
 
 /**
- * Read a varint from the data
+ * Read a varint from the data. Values past 2^53 lose precision.
  */
 function readVarint(
     data: Uint8Array,
     pos: number
 ): { value: number; bytesRead: number } {
-    let result = 0;
-    let shift = 0;
+    let value = 0;
+    let multiplier = 1;
     let bytesRead = 0;
 
-    while (pos + bytesRead < data.length) {
+    // A varint is at most 10 bytes long
+    while (pos + bytesRead < data.length && bytesRead < 10) {
         const byte = data[pos + bytesRead];
         bytesRead++;
 
-        result |= (byte & 0x7f) << shift;
-
+        value += (byte & 0x7f) * multiplier;
         if ((byte & 0x80) === 0) {
-            break;
+            return { value, bytesRead };
         }
-
-        shift += 7;
-
-        if (shift >= 64) {
-            // Overflow protection
-            break;
-        }
-    }
-
-    return { value: result >>> 0, bytesRead };
-}
-
-/**
- * Read a 32-bit float
- */
-function readFloat(data: Uint8Array, pos: number): number {
-    const buffer = new ArrayBuffer(4);
-    const view = new DataView(buffer);
-    for (let i = 0; i < 4; i++) {
-        view.setUint8(i, data[pos + i]);
-    }
-    return view.getFloat32(0, true); // Little endian
-}
-
-/**
- * Read a 64-bit double
- */
-function readDouble(data: Uint8Array, pos: number): number {
-    const buffer = new ArrayBuffer(8);
-    const view = new DataView(buffer);
-    for (let i = 0; i < 8; i++) {
-        view.setUint8(i, data[pos + i]);
-    }
-    return view.getFloat64(0, true); // Little endian
-}
-
-/**
- * Read a fixed 32-bit integer
- */
-function readFixed32(data: Uint8Array, pos: number): number {
-    return (
-        data[pos] |
-        (data[pos + 1] << 8) |
-        (data[pos + 2] << 16) |
-        (data[pos + 3] << 24)
-    );
-}
-
-/**
- * Read a fixed 64-bit integer (as Number, may lose precision)
- */
-function readFixed64(data: Uint8Array, pos: number): number {
-    const low = readFixed32(data, pos);
-    const high = readFixed32(data, pos + 4);
-    return low + high * 0x100000000;
-}
-
-/**
- * Read a string from DataView
- */
-function readString(dataView: DataView, offset: number, length: number): string {
-    let str = '';
-    for (let i = 0; i < length; i++) {
-        str += String.fromCharCode(dataView.getUint8(offset + i));
+        multiplier *= 128;
     }
-    return str;
-}
 
-/**
- * Read 64-bit unsigned integer from DataView
- */
-function readUint64(dataView: DataView, offset: number): number {
-    const high = dataView.getUint32(offset, false);
-    const low = dataView.getUint32(offset + 4, false);
-    return high * 0x100000000 + low;
+    // Ran out of data mid-varint
+    return { value: 0, bytesRead: 0 };
 }
@@ -0,0 +1,64 @@
+/**
+ * Tesla SEI Schema
+ *
+ * Field tables for the SeiMetadata message of Tesla's dashcam.proto, keyed by
+ * the message's own `version` field. A new proto revision gets a new entry
+ * here (usually spreading the previous table and adding or retyping fields);
+ * the parser picks the table from each message and needs no changes.
+ *
+ * Field 1 is always `version`, in every revision.
+ */
+
+import type { SeiData } from '../types';
+
+export type SeiFieldType = 'uint32' | 'uint64' | 'float' | 'double' | 'bool' | 'enum';
+
+export interface SeiFieldDef {
+    name: keyof SeiData;
+    type: SeiFieldType;
+}
+
+// Field number -> definition
+export type SeiSchema = Record<number, SeiFieldDef>;
+
+export const SEI_VERSION_FIELD = 1;
+
+// First published dashcam.proto (firmware 2025.44.25)
+const SEI_FIELDS_V1: SeiSchema = {
+    1: { name: 'version', type: 'uint32' },
+    2: { name: 'gear_state', type: 'enum' },
+    3: { name: 'frame_seq_no', type: 'uint64' },
+    4: { name: 'vehicle_speed_mps', type: 'float' },
+    5: { name: 'accelerator_pedal_position', type: 'float' },
+    6: { name: 'steering_wheel_angle', type: 'float' },
+    7: { name: 'blinker_on_left', type: 'bool' },
+    8: { name: 'blinker_on_right', type: 'bool' },
+    9: { name: 'brake_applied', type: 'bool' },
+    10: { name: 'autopilot_state', type: 'enum' },
+    11: { name: 'latitude_deg', type: 'double' },
+    12: { name: 'longitude_deg', type: 'double' },
+    13: { name: 'heading_deg', type: 'double' },
+    14: { name: 'linear_acceleration_mps2_x', type: 'double' },
+    15: { name: 'linear_acceleration_mps2_y', type: 'double' },
+    16: { name: 'linear_acceleration_mps2_z', type: 'double' },
+};
+
+export const SEI_SCHEMAS: Record<number, SeiSchema> = {
+    1: SEI_FIELDS_V1,
+};
+
+const KNOWN_VERSIONS = Object.keys(SEI_SCHEMAS).map(Number).sort((a, b) => a - b);
+
+/**
+ * Field table for a message version. Versions newer than any known table use
+ * the latest one, and messages without a version use the first.
+ */
+export function getSeiSchema(version: number | undefined): SeiSchema {
+    let match = KNOWN_VERSIONS[0];
+    if (version !== undefined) {
+        for (const known of KNOWN_VERSIONS) {
+            if (known <= version) match = known;
+        }
+    }
+    return SEI_SCHEMAS[match];
+}
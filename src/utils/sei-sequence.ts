@@ -0,0 +1,52 @@
+/**
+ * SEI Frame Sequence Checks
+ *
+ * Every SEI message carries frame_seq_no, which the car increments once per
+ * recorded frame. Gaps mean telemetry frames were dropped and repeats mean
+ * they were written twice, either of which shifts telemetry against video.
+ */
+
+import type { SeiData } from '../types';
+
+export interface SeiSequenceIssue {
+    // Index of the telemetry frame where the problem shows up
+    frameIndex: number;
+    kind: 'dropped' | 'duplicated';
+    // Frames missing before this one (always 1 for duplicates)
+    count: number;
+}
+
+export interface SeiSequenceReport {
+    dropped: number;
+    duplicated: number;
+    issues: SeiSequenceIssue[];
+}
+
+/**
+ * Check a segment's frames for gaps and repeats in frame_seq_no.
+ * Returns null when the frames carry no sequence numbers.
+ */
+export function analyzeFrameSequence(frames: SeiData[]): SeiSequenceReport | null {
+    const report: SeiSequenceReport = { dropped: 0, duplicated: 0, issues: [] };
+    const seen = new Set<number>();
+    let previous: number | null = null;
+
+    frames.forEach((frame, frameIndex) => {
+        const seq = frame.frame_seq_no;
+        if (seq === undefined) return;
+
+        if (seen.has(seq)) {
+            report.duplicated++;
+            report.issues.push({ frameIndex, kind: 'duplicated', count: 1 });
+        } else if (previous !== null && seq > previous + 1) {
+            const count = seq - previous - 1;
+            report.dropped += count;
+            report.issues.push({ frameIndex, kind: 'dropped', count });
+        }
+
+        seen.add(seq);
+        previous = seq;
+    });
+
+    return seen.size > 0 ? report : null;
+}
@@ -0,0 +1,82 @@
+/**
+ * SEI Timeline
+ *
+ * Telemetry frames of one segment, searchable by video time. Frames stamped
+ * with the presentation time of their video sample are found by binary search,
+ * so the overlay matches the displayed frame even when some frames carry no
+ * SEI or the frame rate wanders. Unstamped frames (no usable sample table)
+ * fall back to spreading the frames evenly over the segment duration.
+ */
+
+import type { SeiData } from '../types';
+import { VIDEO_FPS } from './constants';
+
+// Allowance for video currentTime landing just before a frame's timestamp
+const TIME_EPSILON = 1e-3;
+
+export class SeiTimeline {
+    // Decode order, as parsed
+    private frames: SeiData[] = [];
+    // Presentation order, for stamped frames
+    private times: number[] = [];
+    private timedFrames: SeiData[] = [];
+
+    get size(): number {
+        return this.frames.length;
+    }
+
+    /**
+     * Append the next parsed frame, with its presentation time in seconds if known
+     */
+    add(frame: SeiData, time?: number): void {
+        this.frames.push(frame);
+        if (time === undefined) return;
+
+        // Frames arrive in decode order, so B-frames land slightly before the end
+        let index = this.times.length;
+        while (index > 0 && this.times[index - 1] > time) index--;
+        this.times.splice(index, 0, time);
+        this.timedFrames.splice(index, 0, frame);
+    }
+
+    clear(): void {
+        this.frames = [];
+        this.times = [];
+        this.timedFrames = [];
+    }
+
+    /**
+     * Frames in decode order
+     */
+    toArray(): SeiData[] {
+        return this.frames.slice();
+    }
+
+    /**
+     * Frame shown at a video time. `duration` is only used for unstamped frames.
+     */
+    getFrameAtTime(time: number, duration?: number | null): SeiData | null {
+        if (this.frames.length === 0) return null;
+
+        if (this.timedFrames.length === this.frames.length) {
+            // Last frame presented at or before the time
+            let low = 0;
+            let high = this.times.length - 1;
+            let found = 0;
+            while (low <= high) {
+                const mid = (low + high) >> 1;
+                if (this.times[mid] <= time + TIME_EPSILON) {
+                    found = mid;
+                    low = mid + 1;
+                } else {
+                    high = mid - 1;
+                }
+            }
+            return this.timedFrames[found];
+        }
+
+        const fps = duration && duration > 0 ? this.frames.length / duration : VIDEO_FPS;
+        const index = Math.min(Math.max(Math.floor(time * fps), 0), this.frames.length - 1);
+        return this.frames[index];
+    }
+}
@@ -0,0 +1,104 @@
+/**
+ * IndexedDB Storage
+ *
+ * Thin promise wrapper around a single AniCam IndexedDB database.
+ * Each feature owns one object store; bump DB_VERSION when adding a store.
+ */
+
+const DB_NAME = 'anicam';
+const DB_VERSION = 6;
+
+// Object stores and their key paths
+export const STORES = {
+    recentFolders: 'recentFolders',
+    clipIndex: 'clipIndex',
+    thumbnails: 'thumbnails',
+    clipNotes: 'clipNotes',
+    librarySettings: 'librarySettings',
+    folderIds: 'folderIds',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const STORE_KEY_PATHS: Record<StoreName, string> = {
+    recentFolders: 'id',
+    clipIndex: 'rootKey',
+    thumbnails: 'key',
+    clipNotes: 'key',
+    librarySettings: 'rootKey',
+    folderIds: 'id',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check whether IndexedDB is usable in this browser context
+ */
+export function isStorageAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (!isStorageAvailable()) {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const [name, keyPath] of Object.entries(STORE_KEY_PATHS)) {
+                    if (!db.objectStoreNames.contains(name)) {
+                        db.createObjectStore(name, { keyPath });
+                    }
+                }
+            };
+
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+
+        // Allow a later retry if opening failed (e.g. private browsing)
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Run a single request against an object store
+ */
+async function withStore<T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = run(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+export function storageGet<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    return withStore<T | undefined>(storeName, 'readonly', (store) => store.get(key));
+}
+
+export function storageGetAll<T>(storeName: StoreName): Promise<T[]> {
+    return withStore<T[]>(storeName, 'readonly', (store) => store.getAll());
+}
+
+export async function storagePut<T>(storeName: StoreName, value: T): Promise<void> {
+    await withStore(storeName, 'readwrite', (store) => store.put(value));
+}
+
+export async function storageDelete(storeName: StoreName, key: IDBValidKey): Promise<void> {
+    await withStore(storeName, 'readwrite', (store) => store.delete(key));
+}
@@ -0,0 +1,84 @@
+/**
+ * Thumbnail URL Cache
+ *
+ * Hands out object URLs for clip thumbnails. URLs are reference counted while
+ * rows display them; once released they stay in a bounded LRU so scrolling
+ * back is instant, and the oldest unused URLs are revoked beyond the limit.
+ * Loads still pending when their last row releases them are aborted.
+ */
+
+import type { IFileSystemFileEntry } from '../types/file-system';
+import { loadThumbnailUrl } from './clip-scanner';
+
+// Unused thumbnail URLs kept alive for quick reuse
+const MAX_CACHED_THUMBNAILS = 100;
+
+interface CacheEntry {
+    url: Promise<string | null>;
+    refs: number;
+    settled: boolean;
+    controller: AbortController;
+}
+
+class ThumbnailCache {
+    // Map iteration order doubles as LRU order (oldest first)
+    private entries = new Map<IFileSystemFileEntry, CacheEntry>();
+
+    constructor(private capacity: number) { }
+
+    /**
+     * Get the URL for a thumbnail file; must be paired with release().
+     * `load` creates the URL on a cache miss (thumb.png by default).
+     */
+    acquire(
+        handle: IFileSystemFileEntry,
+        load: (handle: IFileSystemFileEntry, signal: AbortSignal) => Promise<string | null> = loadThumbnailUrl
+    ): Promise<string | null> {
+        let entry = this.entries.get(handle);
+        if (entry) {
+            this.entries.delete(handle);
+        } else {
+            const controller = new AbortController();
+            const created: CacheEntry = { url: load(handle, controller.signal), refs: 0, settled: false, controller };
+            created.url.then(() => {
+                created.settled = true;
+            });
+            entry = created;
+        }
+        entry.refs++;
+        this.entries.set(handle, entry);
+        return entry.url;
+    }
+
+    release(handle: IFileSystemFileEntry): void {
+        const entry = this.entries.get(handle);
+        if (!entry) return;
+        entry.refs = Math.max(0, entry.refs - 1);
+
+        // Nobody is waiting any more: drop the load instead of finishing it
+        if (entry.refs === 0 && !entry.settled) {
+            this.entries.delete(handle);
+            entry.controller.abort();
+            entry.url.then(url => url && URL.revokeObjectURL(url));
+            return;
+        }
+        this.evict();
+    }
+
+    /**
+     * Revoke the least recently used URLs that no row is displaying
+     */
+    private evict(): void {
+        let excess = this.entries.size - this.capacity;
+        for (const [handle, entry] of this.entries) {
+            if (excess <= 0) break;
+            if (entry.refs > 0) continue;
+
+            this.entries.delete(handle);
+            entry.url.then(url => url && URL.revokeObjectURL(url));
+            excess--;
+        }
+    }
+}
+
+export const thumbnailCache = new ThumbnailCache(MAX_CACHED_THUMBNAILS);
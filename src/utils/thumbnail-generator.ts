@@ -0,0 +1,180 @@
+/**
+ * Generated Thumbnails
+ *
+ * Clips without a thumb.png (RecentClips, older events) get a preview decoded
+ * from the first keyframe of their front camera video. Decoding happens in a
+ * worker, and results are cached in IndexedDB keyed by the video's identity
+ * (name, size and modification time) so each file is decoded only once.
+ * The oldest cached thumbnails are pruned once the store grows past a limit.
+ */
+
+import type { ClipInfo } from '../types';
+import type { IFileSystemFileEntry } from '../types/file-system';
+import type { ThumbnailWorkerMessage, ThumbnailWorkerResponse } from '../workers/thumbnail-worker';
+import { CAMERAS } from './constants';
+import { STORES, storageDelete, storageGet, storageGetAll, storagePut } from './storage';
+
+// Twice the sidebar thumbnail width for high-DPI screens
+const THUMBNAIL_WIDTH = 160;
+
+// Thumbnails kept in IndexedDB; a few MB at this width
+const MAX_STORED_THUMBNAILS = 2000;
+
+interface StoredThumbnail {
+    key: string;
+    blob: Blob;
+    createdAt: number;
+}
+
+interface PendingRequest {
+    file: File;
+    resolve: (blob: Blob | null) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+let activeRequest: { id: number; resolve: (blob: Blob | null) => void } | null = null;
+const queue: PendingRequest[] = [];
+let pruneScheduled = false;
+
+/**
+ * Pick the video to generate a clip's thumbnail from: the front camera of the
+ * first segment, or any camera if the front one is missing.
+ */
+export function getThumbnailSource(clip: ClipInfo): IFileSystemFileEntry | null {
+    const files = clip.segments[0]?.files;
+    if (!files) return null;
+    for (const camera of CAMERAS) {
+        if (files[camera]) return files[camera]!;
+    }
+    return null;
+}
+
+function getFileIdentity(file: File): string {
+    return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function getWorker(): Worker {
+    if (!worker) {
+        worker = new Worker(
+            new URL('../workers/thumbnail-worker.ts', import.meta.url),
+            { type: 'module' }
+        );
+        worker.onmessage = (event: MessageEvent<ThumbnailWorkerResponse>) => {
+            const { id, blob, error } = event.data;
+            if (!activeRequest || activeRequest.id !== id) return;
+            if (error) console.warn('Thumbnail generation failed:', error);
+            finishActive(blob ?? null);
+        };
+        worker.onerror = (err) => {
+            console.error('Thumbnail worker error:', err);
+            finishActive(null);
+        };
+    }
+    return worker;
+}
+
+function finishActive(blob: Blob | null): void {
+    activeRequest?.resolve(blob);
+    activeRequest = null;
+    processQueue();
+}
+
+/**
+ * Decode one video at a time; the most recent request goes first since it
+ * belongs to the rows the user scrolled to last.
+ */
+function processQueue(): void {
+    if (activeRequest) return;
+    const request = queue.pop();
+    if (!request) return;
+
+    activeRequest = { id: nextRequestId++, resolve: request.resolve };
+    const message: ThumbnailWorkerMessage = {
+        id: activeRequest.id,
+        file: request.file,
+        width: THUMBNAIL_WIDTH,
+    };
+    getWorker().postMessage(message);
+}
+
+/**
+ * Queue a video for decoding. Aborting drops it from the queue and resolves
+ * with null; a decode already running in the worker is left to finish.
+ */
+function decodeThumbnail(file: File, signal?: AbortSignal): Promise<Blob | null> {
+    if (signal?.aborted) return Promise.resolve(null);
+
+    return new Promise((resolve) => {
+        const request: PendingRequest = { file, resolve };
+        queue.push(request);
+        signal?.addEventListener('abort', () => {
+            const index = queue.indexOf(request);
+            if (index >= 0) {
+                queue.splice(index, 1);
+                resolve(null);
+            }
+        }, { once: true });
+        processQueue();
+    });
+}
+
+/**
+ * Delete the oldest stored thumbnails beyond the limit
+ */
+async function pruneStoredThumbnails(): Promise<void> {
+    const stored = await storageGetAll<StoredThumbnail>(STORES.thumbnails);
+    if (stored.length <= MAX_STORED_THUMBNAILS) return;
+
+    stored.sort((a, b) => a.createdAt - b.createdAt);
+    for (const thumbnail of stored.slice(0, stored.length - MAX_STORED_THUMBNAILS)) {
+        await storageDelete(STORES.thumbnails, thumbnail.key);
+    }
+}
+
+/**
+ * Prune once per page load, after the first new thumbnail is stored
+ */
+function schedulePrune(): void {
+    if (pruneScheduled) return;
+    pruneScheduled = true;
+    pruneStoredThumbnails().catch(err => console.warn('Failed to prune thumbnail cache:', err));
+}
+
+/**
+ * Get a generated thumbnail for a video, from IndexedDB or by decoding it
+ */
+export async function generateThumbnail(handle: IFileSystemFileEntry, signal?: AbortSignal): Promise<Blob | null> {
+    const file = await handle.getFile();
+    const key = getFileIdentity(file);
+
+    try {
+        const stored = await storageGet<StoredThumbnail>(STORES.thumbnails, key);
+        if (stored) return stored.blob;
+    } catch (err) {
+        console.warn('Failed to read thumbnail cache:', err);
+    }
+
+    const blob = await decodeThumbnail(file, signal);
+    if (blob) {
+        storagePut<StoredThumbnail>(STORES.thumbnails, { key, blob, createdAt: Date.now() })
+            .then(schedulePrune)
+            .catch(err => console.warn('Failed to store thumbnail:', err));
+    }
+    return blob;
+}
+
+/**
+ * Object URL for a generated thumbnail, or null if the video can't be decoded
+ */
+export async function loadGeneratedThumbnailUrl(
+    handle: IFileSystemFileEntry,
+    signal?: AbortSignal
+): Promise<string | null> {
+    try {
+        const blob = await generateThumbnail(handle, signal);
+        return blob ? URL.createObjectURL(blob) : null;
+    } catch {
+        return null;
+    }
+}
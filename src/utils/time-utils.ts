@@ -1,3 +1,5 @@
+import { formatDateTime, fromWallClock, type WallClock } from './timezone';
+
 /**
  * Format seconds to MM:SS display
  */
@@ -23,27 +25,51 @@ export function formatClipDate(name: string): string {
 }
 
 /**
- * Parse timestamp from clip folder name
+ * Wall-clock fields of a clip folder or segment name ("2024-01-15_14-30-25")
  */
-export function parseClipTimestamp(name: string): number {
+export function parseClipWallClock(name: string): WallClock | null {
     const match = name.match(/^(\d{4})-(\d{2})-(\d{2})_(\d{2})-(\d{2})-(\d{2})$/);
-    if (match) {
-        const [, year, month, day, hour, minute, second] = match;
-        return new Date(
-            parseInt(year),
-            parseInt(month) - 1,
-            parseInt(day),
-            parseInt(hour),
-            parseInt(minute),
-            parseInt(second)
-        ).getTime();
-    }
-    return 0;
+    if (!match) return null;
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    return { year, month, day, hour, minute, second };
+}
+
+/**
+ * Parse timestamp from clip folder name.
+ * The name is read as wall-clock time in `timeZone`, or the browser's zone if omitted.
+ */
+export function parseClipTimestamp(name: string, timeZone?: string): number {
+    const wall = parseClipWallClock(name);
+    if (!wall) return 0;
+    if (timeZone) return fromWallClock(wall, timeZone);
+    return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second).getTime();
 }
 
 /**
- * Format event timestamp to human-readable string (removes the 'T')
+ * Wall-clock fields of an event.json timestamp ("2024-01-15T14:30:25")
  */
-export function formatEventDate(timestamp: string): string {
+export function parseEventWallClock(timestamp: string): WallClock | null {
+    const match = timestamp.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return null;
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    return { year, month, day, hour, minute, second };
+}
+
+/**
+ * Format event timestamp to human-readable string ("2024/01/15 14:30:25").
+ * event.json times are local wall-clock times; ones that carry a UTC offset
+ * are converted to `timeZone`.
+ */
+export function formatEventDate(timestamp: string, timeZone?: string): string {
+    const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(timestamp);
+    const time = Date.parse(timestamp);
+    if (hasOffset && timeZone && !isNaN(time)) {
+        return formatDateTime(time, timeZone);
+    }
+
+    const wall = parseEventWallClock(timestamp);
+    if (wall) {
+        return formatDateTime(fromWallClock(wall, 'UTC'), 'UTC');
+    }
     return timestamp.replace('T', ' ');
 }
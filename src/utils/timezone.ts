@@ -0,0 +1,213 @@
+/**
+ * Library Time Zones
+ *
+ * Tesla names clip folders and segment files after the car's local wall-clock
+ * time, with no UTC offset. A library time zone says which zone that clock
+ * was in, so recordings can be turned into real instants and shown with an
+ * explicit zone no matter where the footage is reviewed.
+ */
+
+import tzLookup from '@photostructure/tz-lookup';
+import type { ClipInfo } from '../types';
+
+export type TimezoneMode = 'browser' | 'fixed' | 'auto';
+
+export interface TimezoneSetting {
+    mode: TimezoneMode;
+    // IANA zone used in 'fixed' mode; in 'auto' mode the zone chosen for
+    // clips whose position gives none ('' = browser time)
+    zone: string;
+}
+
+export const DEFAULT_TIMEZONE_SETTING: TimezoneSetting = {
+    mode: 'browser',
+    zone: '',
+};
+
+export interface WallClock {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+// Intl.supportedValuesOf is ES2022; the project targets ES2020 typings
+type IntlWithSupportedValues = typeof Intl & {
+    supportedValuesOf?: (key: 'timeZone') => string[];
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const labelFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+export function getBrowserTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(zone: string): boolean {
+    try {
+        getPartsFormatter(zone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * IANA zones known to the browser, for the zone picker
+ */
+export function listTimeZones(): string[] {
+    const zones = (Intl as IntlWithSupportedValues).supportedValuesOf?.('timeZone') ?? [];
+    return zones.length > 0 ? zones : [getBrowserTimeZone(), 'UTC'];
+}
+
+/**
+ * Wall-clock fields of an instant in a zone
+ */
+export function toWallClock(time: number, timeZone: string): WallClock {
+    const fields: Record<string, number> = {};
+    for (const part of getPartsFormatter(timeZone).formatToParts(new Date(time))) {
+        if (part.type !== 'literal') fields[part.type] = parseInt(part.value, 10);
+    }
+    return {
+        year: fields.year,
+        month: fields.month,
+        day: fields.day,
+        hour: fields.hour,
+        minute: fields.minute,
+        second: fields.second,
+    };
+}
+
+/**
+ * Offset of a zone from UTC at an instant, in minutes east of UTC
+ */
+export function getTimeZoneOffset(time: number, timeZone: string): number {
+    const wall = toWallClock(time, timeZone);
+    const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+    return Math.round((asUtc - Math.floor(time / 1000) * 1000) / 60000);
+}
+
+/**
+ * Instant at which a zone's clock showed the given wall-clock time.
+ * Times skipped by a DST jump resolve to the later offset.
+ */
+export function fromWallClock(wall: WallClock, timeZone: string): number {
+    const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+    const guessOffset = getTimeZoneOffset(asUtc, timeZone);
+    const offset = getTimeZoneOffset(asUtc - guessOffset * 60000, timeZone);
+    const time = asUtc - offset * 60000;
+    if (getTimeZoneOffset(time, timeZone) === offset) return time;
+
+    // Inside a DST gap: the smaller offset gives the instant after the jump
+    return asUtc - Math.min(guessOffset, offset) * 60000;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * Format an instant as "YYYY/MM/DD HH:MM:SS" in a zone
+ */
+export function formatDateTime(time: number, timeZone: string): string {
+    const w = toWallClock(time, timeZone);
+    return `${w.year}/${pad(w.month)}/${pad(w.day)} ${pad(w.hour)}:${pad(w.minute)}:${pad(w.second)}`;
+}
+
+/**
+ * Format an instant as "HH:MM:SS" in a zone
+ */
+export function formatTimeOfDay(time: number, timeZone: string): string {
+    const w = toWallClock(time, timeZone);
+    return `${pad(w.hour)}:${pad(w.minute)}:${pad(w.second)}`;
+}
+
+/**
+ * Filename-safe "YYYY-MM-DD_HH-MM-SS+HHMM" stamp of an instant in a zone
+ */
+export function formatFileTimestamp(time: number, timeZone: string): string {
+    const w = toWallClock(time, timeZone);
+    return `${w.year}-${pad(w.month)}-${pad(w.day)}_${pad(w.hour)}-${pad(w.minute)}-${pad(w.second)}`
+        + formatUtcOffset(getTimeZoneOffset(time, timeZone));
+}
+
+/**
+ * "+HHMM" form of an offset in minutes east of UTC, e.g. "+0530" or "-0500"
+ */
+export function formatUtcOffset(offset: number): string {
+    const sign = offset < 0 ? '-' : '+';
+    const abs = Math.abs(offset);
+    return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/**
+ * Short zone name at an instant, e.g. "PST" or "GMT+8"
+ */
+export function getZoneLabel(time: number, timeZone: string): string {
+    let formatter = labelFormatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' });
+        labelFormatters.set(timeZone, formatter);
+    }
+    const part = formatter.formatToParts(new Date(time)).find(p => p.type === 'timeZoneName');
+    return part?.value ?? timeZone;
+}
+
+/**
+ * Zone at a GPS position, from zone boundaries bundled with the app so no
+ * network lookup is needed. Null at sea or wherever no zone claims the
+ * position; the nautical Etc/GMT zones there ignore local offsets like +4:30.
+ */
+export function guessTimeZoneFromPosition(latitude: number, longitude: number): string | null {
+    let zone: string;
+    try {
+        zone = tzLookup(latitude, longitude);
+    } catch {
+        return null;
+    }
+    return zone.startsWith('Etc/') || !isValidTimeZone(zone) ? null : zone;
+}
+
+/**
+ * Zone a clip's wall-clock times were recorded in under a library setting.
+ * In auto mode clips whose position doesn't give a zone use the zone the
+ * user picked for them, else the browser zone.
+ */
+export function resolveClipTimeZone(clip: ClipInfo, setting: TimezoneSetting): string {
+    if (setting.mode === 'fixed' && isValidTimeZone(setting.zone)) {
+        return setting.zone;
+    }
+    if (setting.mode === 'auto') {
+        const { latitude, longitude } = clip.event ?? {};
+        if (
+            latitude !== undefined && longitude !== undefined
+            && Number.isFinite(latitude) && Number.isFinite(longitude)
+            && (latitude !== 0 || longitude !== 0)
+        ) {
+            const zone = guessTimeZoneFromPosition(latitude, longitude);
+            if (zone) return zone;
+        }
+        if (setting.zone && isValidTimeZone(setting.zone)) {
+            return setting.zone;
+        }
+    }
+    return getBrowserTimeZone();
+}
@@ -0,0 +1,228 @@
+/**
+ * Track Mode Lap Data
+ *
+ * Track Mode saves each session to the TeslaTrackMode folder as a front-camera
+ * video plus a CSV of the same name with one row per telemetry sample, e.g.
+ * "Lap,Elapsed Time (ms),Speed (MPH),Latitude (decimal),...". Columns are
+ * matched by name and unit, so firmware versions that add, drop or reorder
+ * columns still parse.
+ */
+
+import type { SeiData } from '../types';
+
+export interface TrackSample {
+    // Seconds since the start of the recording
+    time: number;
+    lap: number;
+    speedMps?: number;
+    latitude?: number;
+    longitude?: number;
+    // Percent, 0-100
+    throttle?: number;
+    brakePressure?: number;
+    steeringAngle?: number;
+    lateralAccel?: number;
+    longitudinalAccel?: number;
+}
+
+export interface TrackLap {
+    lap: number;
+    startTime: number;
+    endTime: number;
+    duration: number;
+}
+
+export interface TrackData {
+    samples: TrackSample[];
+    laps: TrackLap[];
+}
+
+// Brake pressure (bar) above which the brake counts as applied
+const BRAKE_APPLIED_BAR = 1;
+
+type NumericField = Exclude<keyof TrackSample, 'time' | 'lap'>;
+
+interface ColumnMatcher {
+    field: NumericField;
+    pattern: RegExp;
+}
+
+const COLUMN_MATCHERS: ColumnMatcher[] = [
+    { field: 'speedMps', pattern: /^speed\b/ },
+    { field: 'latitude', pattern: /^lat(itude)?\b/ },
+    { field: 'longitude', pattern: /^(lon|lng|longitude)\b/ },
+    { field: 'throttle', pattern: /^(throttle|accelerator)/ },
+    { field: 'brakePressure', pattern: /^brake( pressure)?$/ },
+    { field: 'steeringAngle', pattern: /^steering( wheel)? angle$/ },
+    { field: 'lateralAccel', pattern: /^lat(eral)? acc/ },
+    { field: 'longitudinalAccel', pattern: /^lon(gitudinal)? acc/ },
+];
+
+interface Column {
+    name: string;
+    unit: string;
+}
+
+/**
+ * Split "Speed (MPH)" into a lowercase name and unit
+ */
+function parseHeader(header: string): Column {
+    const match = header.trim().match(/^(.*?)\s*(?:\((.*)\))?$/);
+    return {
+        name: (match?.[1] ?? header).trim().toLowerCase(),
+        unit: (match?.[2] ?? '').trim().toLowerCase(),
+    };
+}
+
+function speedToMps(value: number, unit: string): number {
+    if (unit === 'mph') return value * 0.44704;
+    if (unit === 'kph' || unit === 'km/h' || unit === 'kmh') return value / 3.6;
+    return value;
+}
+
+/**
+ * Split one CSV line, honouring quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            if (quoted && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else {
+                quoted = !quoted;
+            }
+        } else if (char === ',' && !quoted) {
+            cells.push(cell);
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell);
+    return cells;
+}
+
+/**
+ * Parse a Track Mode CSV into time-ordered samples and lap splits
+ */
+export function parseTrackCsv(text: string): TrackData {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length < 2) return { samples: [], laps: [] };
+
+    const columns = splitCsvLine(lines[0].replace(/^﻿/, '')).map(parseHeader);
+    const lapColumn = columns.findIndex(column => column.name === 'lap');
+    const timeColumn = columns.findIndex(column => /^(elapsed )?time$/.test(column.name));
+    if (timeColumn === -1) return { samples: [], laps: [] };
+    const timeScale = columns[timeColumn].unit === 'ms' ? 1 / 1000 : 1;
+
+    const fieldColumns = COLUMN_MATCHERS
+        .map(({ field, pattern }) => ({ field, index: columns.findIndex(column => pattern.test(column.name)) }))
+        .filter(({ index }) => index !== -1);
+
+    const samples: TrackSample[] = [];
+    // Some firmware restarts the clock every lap; keep time increasing across laps
+    let timeOffset = 0;
+    let lastRawTime = -Infinity;
+
+    for (const line of lines.slice(1)) {
+        const cells = splitCsvLine(line);
+        const rawTime = parseFloat(cells[timeColumn]) * timeScale;
+        if (!Number.isFinite(rawTime)) continue;
+        if (rawTime < lastRawTime && samples.length > 0) {
+            timeOffset = samples[samples.length - 1].time;
+        }
+        lastRawTime = rawTime;
+
+        const lap = lapColumn === -1 ? 0 : parseInt(cells[lapColumn], 10);
+        const sample: TrackSample = {
+            time: rawTime + timeOffset,
+            lap: Number.isFinite(lap) ? lap : 0,
+        };
+        for (const { field, index } of fieldColumns) {
+            const value = parseFloat(cells[index]);
+            if (!Number.isFinite(value)) continue;
+            sample[field] = field === 'speedMps' ? speedToMps(value, columns[index].unit) : value;
+        }
+        samples.push(sample);
+    }
+
+    // Recordings start at the first sample
+    const start = samples[0]?.time ?? 0;
+    for (const sample of samples) {
+        sample.time -= start;
+    }
+
+    return { samples, laps: buildLaps(samples) };
+}
+
+/**
+ * Group consecutive samples with the same lap number into lap splits
+ */
+function buildLaps(samples: TrackSample[]): TrackLap[] {
+    const laps: TrackLap[] = [];
+    for (const sample of samples) {
+        const current = laps[laps.length - 1];
+        if (current && current.lap === sample.lap) {
+            current.endTime = sample.time;
+            current.duration = current.endTime - current.startTime;
+        } else {
+            // A lap ends where the next one starts
+            if (current) {
+                current.endTime = sample.time;
+                current.duration = current.endTime - current.startTime;
+            }
+            laps.push({ lap: sample.lap, startTime: sample.time, endTime: sample.time, duration: 0 });
+        }
+    }
+    return laps;
+}
+
+/**
+ * Sample in effect at a recording time (the latest one at or before it)
+ */
+export function getTrackSampleAtTime(data: TrackData, time: number): TrackSample | null {
+    const { samples } = data;
+    if (samples.length === 0) return null;
+
+    let low = 0;
+    let high = samples.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (samples[mid].time <= time) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return samples[low];
+}
+
+/**
+ * Present a Track Mode sample in the shape of SEI telemetry for the telemetry panel
+ */
+export function trackSampleToSeiData(sample: TrackSample): SeiData {
+    return {
+        vehicle_speed_mps: sample.speedMps,
+        accelerator_pedal_position: sample.throttle,
+        brake_applied: sample.brakePressure !== undefined ? sample.brakePressure > BRAKE_APPLIED_BAR : undefined,
+        steering_wheel_angle: sample.steeringAngle,
+        latitude_deg: sample.latitude,
+        longitude_deg: sample.longitude,
+        linear_acceleration_mps2_x: sample.longitudinalAccel,
+        linear_acceleration_mps2_y: sample.lateralAccel,
+    };
+}
+
+/**
+ * Format a lap time as "M:SS.mmm"
+ */
+export function formatLapTime(seconds: number): string {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds - mins * 60;
+    return `${mins}:${secs.toFixed(3).padStart(6, '0')}`;
+}
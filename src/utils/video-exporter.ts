@@ -5,9 +5,11 @@
  * Uses canvas.captureStream() + MediaRecorder API with real-time playback.
  */
 
-import type { Camera, LayoutMode, SeiData, ExportProgress } from '../types';
+import type { Camera, ClipInfo, LayoutMode, SeiData, ExportProgress, Segment } from '../types';
 import { CAMERAS } from './constants';
 import { drawTelemetry } from './telemetry-renderer';
+import { parseClipTimestamp } from './time-utils';
+import { formatFileTimestamp, getBrowserTimeZone } from './timezone';
 
 // Export configuration
 const EXPORT_FPS = 30;
@@ -326,6 +328,22 @@ export class VideoExporter {
     }
 }
 
+/**
+ * Export filename named after the recording start in the library time zone,
+ * e.g. "anicam_2024-01-15_14-30-25-0800.mp4"
+ */
+export function getExportFileName(
+    clip: ClipInfo,
+    segment: Segment | undefined,
+    extension: string,
+    timeZone = getBrowserTimeZone()
+): string {
+    const timeStr = (segment ?? clip.segments[0])?.timeStr ?? clip.name;
+    const start = parseClipTimestamp(timeStr, timeZone);
+    const stamp = start ? formatFileTimestamp(start, timeZone) : clip.name;
+    return `anicam_${stamp}${extension}`;
+}
+
 /**
  * Download a blob as a file
  */
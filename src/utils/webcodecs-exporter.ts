@@ -14,7 +14,8 @@ import {
 } from 'mediabunny';
 
 import { drawTelemetry } from './telemetry-renderer';
-import type { SeiData, LayoutMode, ExportProgress } from '../types';
+import type { SeiTimeline } from './sei-timeline';
+import type { LayoutMode, ExportProgress } from '../types';
 
 export interface WebCodecsExportOptions {
     width: number;
@@ -33,7 +34,7 @@ export interface WebCodecsExportOptions {
 export interface ExportSegment {
     files: Record<string, File>;
     duration: number;
-    seiData?: SeiData[];
+    seiData?: SeiTimeline;
 }
 
 /**
@@ -254,13 +255,8 @@ export class WebCodecsExporter {
                     parsedSamples.forEach(s => s.close());
 
                     // Draw telemetry
-                    if (segment.seiData && segment.seiData.length > 0) {
-                        // Calculate effective FPS of the telemetry data
-                        // Fallback to 36fps if duration is invalid, but it should be valid here
-                        const effectiveFps = segment.duration > 0 ? segment.seiData.length / segment.duration : 36;
-                        const seiIndex = Math.floor(localTime * effectiveFps);
-
-                        const sei = segment.seiData[seiIndex];
+                    if (segment.seiData) {
+                        const sei = segment.seiData.getFrameAtTime(localTime, segment.duration);
                         if (sei) {
                             drawTelemetry(ctx, sei, width, height);
                         }
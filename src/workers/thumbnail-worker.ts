@@ -0,0 +1,64 @@
+/**
+ * Thumbnail Web Worker
+ *
+ * Decodes the first keyframe of a clip video with WebCodecs (via mediabunny)
+ * and encodes a small JPEG preview, keeping decoding off the main thread.
+ */
+
+import { BlobSource, Input, Mp4InputFormat, VideoSampleSink } from 'mediabunny';
+
+export interface ThumbnailWorkerMessage {
+    id: number;
+    file: File;
+    // Target width in pixels; height follows the video aspect ratio
+    width: number;
+}
+
+export interface ThumbnailWorkerResponse {
+    id: number;
+    blob?: Blob;
+    error?: string;
+}
+
+const JPEG_QUALITY = 0.75;
+
+async function renderThumbnail(file: File, width: number): Promise<Blob> {
+    const input = new Input({ source: new BlobSource(file), formats: [new Mp4InputFormat()] });
+    try {
+        const track = await input.getPrimaryVideoTrack();
+        if (!track) throw new Error('No video track');
+        if (!(await track.canDecode())) throw new Error(`Cannot decode ${track.codec ?? 'unknown'} video`);
+
+        // The first sample always comes from a keyframe, so only one frame is decoded
+        const sink = new VideoSampleSink(track);
+        const sample = await sink.getSample(await track.getFirstTimestamp());
+        if (!sample) throw new Error('No decodable frame');
+
+        try {
+            const height = Math.max(1, Math.round(width * sample.displayHeight / sample.displayWidth));
+            const canvas = new OffscreenCanvas(width, height);
+            const ctx = canvas.getContext('2d');
+            if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+
+            sample.draw(ctx, 0, 0, width, height);
+            return await canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+        } finally {
+            sample.close();
+        }
+    } finally {
+        input.dispose();
+    }
+}
+
+self.onmessage = async (event: MessageEvent<ThumbnailWorkerMessage>) => {
+    const { id, file, width } = event.data;
+    try {
+        const blob = await renderThumbnail(file, width);
+        self.postMessage({ id, blob } as ThumbnailWorkerResponse);
+    } catch (err) {
+        self.postMessage({
+            id,
+            error: err instanceof Error ? err.message : String(err),
+        } as ThumbnailWorkerResponse);
+    }
+};